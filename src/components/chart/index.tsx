@@ -0,0 +1,201 @@
+//
+//  index.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useTheme } from '../theme';
+
+export type ChartKind = 'bar' | 'line' | 'pie' | 'histogram';
+
+export type ChartDatum = {
+  label: string;
+  value: number;
+};
+
+export type ChartProps = {
+  kind: ChartKind;
+  data: ChartDatum[];
+  width?: number;
+  height?: number;
+};
+
+const PADDING = { top: 12, right: 12, bottom: 36, left: 48 };
+
+// Round the axis maximum up to 1, 2 or 5 times a power of ten
+const niceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const step = Math.pow(10, Math.floor(Math.log10(value)));
+  return _.find([1, 2, 5, 10], x => x * step >= value)! * step;
+};
+
+const formatValue = (value: number) => {
+  if (Math.abs(value) >= 1e6) return `${_.round(value / 1e6, 1)}M`;
+  if (Math.abs(value) >= 1e3) return `${_.round(value / 1e3, 1)}k`;
+  return `${_.round(value, 2)}`;
+};
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const useChartColors = () => {
+  const theme = useTheme();
+  return [
+    theme.colors.primary,
+    theme.colors.tint,
+    theme.colors.warning,
+    theme.colors.error,
+    theme.colors.info,
+    theme.colors.success,
+    theme.colors['primary-300'],
+    theme.colors['tint-300'],
+    theme.colors['warning-700'],
+    theme.colors['error-300'],
+  ];
+};
+
+const PieChart = ({ data, width, height }: Required<Omit<ChartProps, 'kind'>>) => {
+  const theme = useTheme();
+  const colors = useChartColors();
+  const total = _.sumBy(data, d => Math.max(0, d.value));
+  const radius = Math.min(height, width / 2) / 2 - PADDING.top;
+  const cx = radius + PADDING.top;
+  const cy = height / 2;
+
+  let angle = -Math.PI / 2;
+  const slices = _.map(data, (d, idx) => {
+    const sweep = total > 0 ? (Math.max(0, d.value) / total) * Math.PI * 2 : 0;
+    const start = angle;
+    angle += sweep;
+    return { ...d, start, sweep, color: colors[idx % colors.length] };
+  });
+
+  const point = (a: number) => `${cx + radius * Math.cos(a)},${cy + radius * Math.sin(a)}`;
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${width} ${height}`}>
+      {_.map(slices, slice => slice.sweep >= Math.PI * 2 - 1e-9 ? (
+        <circle key={slice.label} cx={`${cx}`} cy={`${cy}`} r={`${radius}`} fill={slice.color}>
+          <title>{`${slice.label}: ${slice.value}`}</title>
+        </circle>
+      ) : slice.sweep > 0 && (
+        <path
+          key={slice.label}
+          d={`M${cx},${cy} L${point(slice.start)} A${radius},${radius} 0 ${slice.sweep > Math.PI ? 1 : 0} 1 ${point(slice.start + slice.sweep)} Z`}
+          fill={slice.color}
+          stroke="#ffffff"
+          strokeWidth="1"
+        >
+          <title>{`${slice.label}: ${slice.value}`}</title>
+        </path>
+      ))}
+      {_.map(_.take(slices, Math.floor((height - PADDING.top) / 18)), (slice, idx) => (
+        <g key={slice.label} transform={`translate(${cx * 2 + PADDING.left}, ${PADDING.top + idx * 18})`}>
+          <rect width="12" height="12" rx="2" fill={slice.color} />
+          <text x="18" y="10" fontSize={`${theme.fontSize.xs}`} fill={theme.colorContrast('#ffffff')}>
+            {`${truncate(slice.label, 32)} (${total > 0 ? _.round((slice.value / total) * 100, 1) : 0}%)`}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export const Chart = ({ kind, data, width = 600, height = 240 }: ChartProps) => {
+  const theme = useTheme();
+  if (kind === 'pie') return <PieChart data={data} width={width} height={height} />;
+
+  const textColor = theme.colorContrast('#ffffff');
+  const gridColor = theme.colors['primary-100'];
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const max = niceMax(_.max(_.map(data, 'value')) ?? 0);
+  const ticks = _.map(_.range(5), i => (max / 4) * i);
+
+  const band = data.length > 0 ? plotWidth / data.length : plotWidth;
+  const gap = kind === 'histogram' ? 1 : Math.min(8, band * 0.2);
+  const x = (idx: number) => PADDING.left + idx * band;
+  const y = (value: number) => PADDING.top + plotHeight - (Math.max(0, value) / max) * plotHeight;
+
+  // Skip labels that would overlap on dense axes
+  const labelEvery = Math.max(1, Math.ceil(data.length / Math.floor(plotWidth / 64)));
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${width} ${height}`}>
+      {_.map(ticks, tick => (
+        <g key={tick}>
+          <line x1={`${PADDING.left}`} x2={`${width - PADDING.right}`} y1={`${y(tick)}`} y2={`${y(tick)}`} stroke={gridColor} strokeWidth="1" />
+          <text x={`${PADDING.left - 6}`} y={`${y(tick) + 4}`} textAnchor="end" fontSize={`${theme.fontSize.xs}`} fill={textColor}>
+            {formatValue(tick)}
+          </text>
+        </g>
+      ))}
+      {kind === 'line' ? (
+        <>
+          <polyline
+            points={_.map(data, (d, idx) => `${x(idx) + band / 2},${y(d.value)}`).join(' ')}
+            fill="none"
+            stroke={theme.colors.primary}
+            strokeWidth="2"
+          />
+          {_.map(data, (d, idx) => (
+            <circle key={idx} cx={`${x(idx) + band / 2}`} cy={`${y(d.value)}`} r="3" fill={theme.colors.primary}>
+              <title>{`${d.label}: ${d.value}`}</title>
+            </circle>
+          ))}
+        </>
+      ) : _.map(data, (d, idx) => (
+        <rect
+          key={idx}
+          x={`${x(idx) + gap / 2}`}
+          y={`${y(d.value)}`}
+          width={`${Math.max(1, band - gap)}`}
+          height={`${PADDING.top + plotHeight - y(d.value)}`}
+          fill={theme.colors.primary}
+          style={{ '&:hover': { fill: theme.colors['primary-700'] } }}
+        >
+          <title>{`${d.label}: ${d.value}`}</title>
+        </rect>
+      ))}
+      {_.map(data, (d, idx) => idx % labelEvery === 0 && (
+        <text
+          key={idx}
+          x={`${x(idx) + band / 2}`}
+          y={`${PADDING.top + plotHeight + 16}`}
+          textAnchor="middle"
+          fontSize={`${theme.fontSize.xs}`}
+          fill={textColor}
+        >
+          {truncate(d.label, 10)}
+        </text>
+      ))}
+      <line
+        x1={`${PADDING.left}`}
+        x2={`${width - PADDING.right}`}
+        y1={`${PADDING.top + plotHeight}`}
+        y2={`${PADDING.top + plotHeight}`}
+        stroke={theme.colors['primary-300']}
+        strokeWidth="1"
+      />
+    </svg>
+  );
+};
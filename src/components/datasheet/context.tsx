@@ -26,6 +26,7 @@
 import _ from 'lodash';
 import { createContext, SetStateAction, useContext, useMemo, useState, PropsWithChildren } from 'frosty';
 import { Position, Range } from './types';
+import { fillRange } from './fill';
 
 export type DataSheetState = {
   _selectStart?: Position;
@@ -36,9 +37,14 @@ export type DataSheetState = {
   shiftKey?: boolean;
   metaKey?: boolean;
   editing?: Position;
+  // Cell moved by the keyboard and the fixed corner of a keyboard extended selection
+  activeCell?: Position;
+  anchorCell?: Position;
+  // Source selection and current target cell while dragging the fill handle
+  _fill?: { source: Range<Position>; target: Position; };
 };
 
-export const selectionKeys = ['_selectStart', '_selectEnd', '_selectRows', 'selectedCells', 'selectedRows'];
+export const selectionKeys = ['_selectStart', '_selectEnd', '_selectRows', 'selectedCells', 'selectedRows', '_fill', 'activeCell', 'anchorCell'];
 
 const createBound = (p1: Position, p2: Position) => ({
   start: {
@@ -62,7 +68,7 @@ const calculate = (state: DataSheetState) => {
   const _selectingCells = state._selectStart && state._selectEnd ? createBound(state._selectStart, state._selectEnd) : undefined;
 
   const selectingRows = state.shiftKey ? _.union(_selectedRows, _selectingRows) : state.metaKey ? _.xor(_selectedRows, _selectingRows) : _selectingRows;
-  const selectingCells = _.compact(
+  const selectingCells = state._fill ? [fillRange(state._fill.source, state._fill.target)] : _.compact(
     state.shiftKey || state.metaKey
       ? [selectedCells, _selectingCells]
       : [_selectingCells ?? selectedCells]
@@ -0,0 +1,78 @@
+//
+//  fill.ts
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { Position, Range } from './types';
+
+// Extend the source range towards the target cell along a single axis
+export const fillRange = (source: Range<Position>, target: Position): Range<Position> => {
+  const down = target.row - source.end.row;
+  const up = source.start.row - target.row;
+  const right = target.col - source.end.col;
+  const left = source.start.col - target.col;
+  const vertical = Math.max(down, up);
+  const horizontal = Math.max(right, left);
+  if (vertical <= 0 && horizontal <= 0) return source;
+  if (vertical >= horizontal) {
+    return down > 0
+      ? { start: source.start, end: { row: target.row, col: source.end.col } }
+      : { start: { row: target.row, col: source.start.col }, end: source.end };
+  }
+  return right > 0
+    ? { start: source.start, end: { row: source.end.row, col: target.col } }
+    : { start: { row: source.start.row, col: target.col }, end: source.end };
+};
+
+const decimalPlaces = (value: number) => {
+  const [, fraction = ''] = `${value}`.split('.');
+  return fraction.length;
+};
+
+// Constant difference between consecutive values, if any
+const seriesStep = (values: number[]) => {
+  if (values.length < 2) return;
+  const step = values[1] - values[0];
+  const tolerance = 1e-9 * Math.max(1, Math.abs(step));
+  if (_.every(values, (v, i) => i === 0 || Math.abs(v - values[i - 1] - step) <= tolerance)) return step;
+};
+
+// Continue the source values with `count` more values. Numbers and dates
+// with a constant step are extended as a series, anything else repeats.
+export const fillSeries = (values: any[], count: number): any[] => {
+  if (_.every(values, v => _.isNumber(v) && _.isFinite(v))) {
+    const step = seriesStep(values);
+    if (!_.isNil(step)) {
+      const precision = Math.min(10, _.max(_.map(values, v => decimalPlaces(v))) ?? 0);
+      return _.times(count, i => _.round(_.last(values) + step * (i + 1), precision));
+    }
+  }
+  if (_.every(values, v => _.isDate(v) && _.isFinite(v.valueOf()))) {
+    const step = seriesStep(_.map(values, v => v.valueOf()));
+    if (!_.isNil(step)) {
+      return _.times(count, i => new Date(_.last(values).valueOf() + step * (i + 1)));
+    }
+  }
+  return _.times(count, i => values[i % values.length]);
+};
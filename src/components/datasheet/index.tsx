@@ -24,8 +24,8 @@
 //
 
 import _ from 'lodash';
-import { Column, DataSheetProps } from './types';
-import { useEffect, useRef, _useCallbacks, useRefHandle, useMemo } from 'frosty';
+import { Column, DataSheetProps, Position } from './types';
+import { useEffect, useRef, useState, _useCallbacks, useRefHandle, useMemo } from 'frosty';
 import { useWindow } from 'frosty/web';
 import { DataSheetStateProvider, useDataSheetContext, selectionKeys } from './context';
 import { DataSheetHeader } from './table/header';
@@ -33,6 +33,8 @@ import { DataSheetBody } from './table/body';
 import { useTheme } from '../theme';
 import { useStyle } from '../style';
 import { defaultEncoders } from './encoders';
+import { columnOffsets, computeColumnLayout, findScrollParent, useVirtualWindow } from './virtual';
+import { fillRange } from './fill';
 
 const isChildNode = (parent?: Node | null, node?: Node | EventTarget | null, doc?: Document) => {
   if (!parent || !doc) return false;
@@ -60,9 +62,15 @@ const DataSheetTable = <T extends object, C extends Column>({
   startRowNumber,
   stickyHeader = true,
   stickyRowNumbers = true,
+  pinnedColumns = 0,
+  pinnedTrailingColumns = 0,
   showEmptyLastRow,
   highlightColor,
+  virtualized = false,
+  rowHeight,
+  overscan = 10,
   renderItem,
+  renderRowNumber,
   onColumnWidthChange,
   onSelectionChanged,
   onDeleteRows,
@@ -71,17 +79,23 @@ const DataSheetTable = <T extends object, C extends Column>({
   onCopyCells,
   onPasteRows,
   onPasteCells,
+  onFillCells,
   onStartEditing,
   onEndEditing,
+  onCancelEditing,
+  onEndReached,
+  onUndo,
+  onRedo,
 }: DataSheetProps<T, C>) => {
   const { state, setState, clearSelection, endEditing } = useDataSheetContext();
   const tableRef = useRef<HTMLTableElement>();
   const theme = useTheme();
   const style = useStyle();
+  const win = useWindow();
   const {
     document: doc,
     navigator,
-  } = useWindow();
+  } = win;
 
   const effectiveHighlightColor = highlightColor ?? style.datasheet.highlightColor;
 
@@ -89,11 +103,206 @@ const DataSheetTable = <T extends object, C extends Column>({
     get editing() { return !_.isNil(state.editing) },
     get selectedRows() { return _.isEmpty(state.selectedCells) ? state.selectedRows ?? [] : [] },
     get selectedCells() { return state.selectedCells; },
+    get activeCell() { return state.activeCell; },
     clearSelection,
     endEditing,
+    moveTo,
+    startEditing,
+    cancelEditing,
   }), [state]);
   useRefHandle(ref, () => handler, [handler]);
 
+  // Only the visible rows and columns are rendered when virtualized
+  const effectiveRowHeight = rowHeight ?? theme.fontSize.md + theme.spacing.xs * 2 + 1;
+  const columnWidths = _.map(columns, (_col, i) => (columnWidth?.[i] ?? columnMinWidth) + theme.spacing.sm * 2 + 1);
+  const virtualRange = useVirtualWindow(tableRef, {
+    enabled: virtualized,
+    rowCount: data.length,
+    rowHeight: effectiveRowHeight,
+    columnWidths,
+    overscan,
+    onEndReached: onEndReached && (() => onEndReached(handler)),
+  });
+
+  // Pinned columns stick next to the row numbers, whose width is only known after render
+  const [rowNumberWidth, setRowNumberWidth] = useState(0);
+  useEffect(() => {
+    const cell = tableRef.current?.tHead?.rows[0]?.cells[0];
+    const width = cell?.dataset.rowNumbers ? cell.offsetWidth : 0;
+    if (width !== rowNumberWidth) setRowNumberWidth(width);
+  });
+  const columnLayout = computeColumnLayout(columnWidths, virtualRange, pinnedColumns, pinnedTrailingColumns, stickyRowNumbers ? rowNumberWidth : 0);
+
+  const rowCount = data.length + (showEmptyLastRow === true ? 1 : 0);
+  const isEditable = (row: number, col: number) => _.isFunction(allowEditForCell) ? allowEditForCell(row, col) : !!allowEditForCell;
+
+  // Scroll the cell into view, clear of the sticky header and row numbers
+  const scrollToCell = ({ row, col }: Position) => {
+    const table = tableRef.current;
+    const tbody = table?.tBodies[0];
+    const container = table && findScrollParent(table, win);
+    if (!table || !tbody || !container) return;
+
+    const headerHeight = stickyHeader ? table.tHead?.offsetHeight ?? 0 : 0;
+    const viewport = container.getBoundingClientRect();
+    const body = tbody.getBoundingClientRect();
+
+    // Virtualized cells may not be rendered, their position follows from the fixed sizes
+    const offsets = columnOffsets(columnWidths);
+    const pinned = !_.isNil(columnLayout.pinnedStyle(col));
+    const stickyLeft = (stickyRowNumbers ? rowNumberWidth : 0) + offsets[columnLayout.leading.length];
+    const stickyRight = _.last(offsets)! - offsets[columns.length - columnLayout.trailing.length];
+    const cell = tbody.querySelector<HTMLElement>(`td[data-row="${row}"][data-col="${col}"]`);
+    const rect = cell?.getBoundingClientRect() ?? {
+      top: body.top + row * effectiveRowHeight,
+      bottom: body.top + (row + 1) * effectiveRowHeight,
+      left: body.left + rowNumberWidth + offsets[col],
+      right: body.left + rowNumberWidth + offsets[col + 1],
+    };
+
+    if (rect.top < viewport.top + headerHeight) {
+      container.scrollTop -= viewport.top + headerHeight - rect.top;
+    } else if (rect.bottom > viewport.bottom) {
+      container.scrollTop += rect.bottom - viewport.bottom;
+    }
+    if (pinned) return;
+    if (rect.left < viewport.left + stickyLeft) {
+      container.scrollLeft -= viewport.left + stickyLeft - rect.left;
+    } else if (rect.right > viewport.right - stickyRight) {
+      container.scrollLeft += rect.right - viewport.right + stickyRight;
+    }
+  };
+
+  // Number of rows moved by PageUp / PageDown
+  const pageSize = () => {
+    const table = tableRef.current;
+    const container = table && findScrollParent(table, win);
+    const height = (container?.clientHeight ?? win.innerHeight) - (stickyHeader ? table?.tHead?.offsetHeight ?? 0 : 0);
+    return Math.max(1, Math.floor(height / effectiveRowHeight) - 1);
+  };
+
+  const selectRange = (anchor: Position, active: Position) => {
+    setState(currentState => ({
+      ..._.omit(currentState, ...selectionKeys, 'editing', 'shiftKey', 'metaKey'),
+      selectedCells: {
+        start: { row: Math.min(anchor.row, active.row), col: Math.min(anchor.col, active.col) },
+        end: { row: Math.max(anchor.row, active.row), col: Math.max(anchor.col, active.col) },
+      },
+      activeCell: active,
+      anchorCell: anchor,
+    }));
+    scrollToCell(active);
+    if (_.isFunction(onSelectionChanged)) setTimeout(() => onSelectionChanged(), 0);
+  };
+
+  // Select a single cell, or extend the selection from the anchor to the cell
+  const moveTo = (position: Position, extend = false) => {
+    if (rowCount === 0 || columns.length === 0) return;
+    const active = {
+      row: _.clamp(position.row, 0, rowCount - 1),
+      col: _.clamp(position.col, 0, columns.length - 1),
+    };
+    selectRange(extend ? state.anchorCell ?? state.activeCell ?? active : active, active);
+  };
+
+  const startEditing = (position?: Position) => {
+    const target = position ?? state.activeCell ?? state.selectedCells?.start;
+    if (!target || !isEditable(target.row, target.col)) return;
+    setState({ editing: target, activeCell: target, anchorCell: target });
+    scrollToCell(target);
+    if (_.isFunction(onStartEditing)) onStartEditing(target.row, target.col, handler);
+  };
+
+  // Leave the editor without committing, the consumer restores the original value
+  const cancelEditing = () => {
+    const editing = state.editing;
+    if (!editing) return;
+    if (_.isFunction(onCancelEditing)) onCancelEditing(editing.row, editing.col, handler);
+    setState({ selectedCells: { start: editing, end: editing }, activeCell: editing, anchorCell: editing });
+    tableRef.current?.focus();
+  };
+
+  // Commit the editor and continue editing the next cell
+  const editNext = (target: Position) => {
+    const editing = state.editing;
+    if (!editing) return;
+    if (_.isFunction(onEndEditing)) onEndEditing(editing.row, editing.col, handler);
+    if (isEditable(target.row, target.col)) {
+      startEditing(target);
+    } else {
+      moveTo(target);
+      tableRef.current?.focus();
+    }
+  };
+
+  // Cell after (or before) the position in reading order
+  const nextCell = ({ row, col }: Position, backward: boolean): Position => {
+    if (backward) {
+      if (col > 0) return { row, col: col - 1 };
+      return row > 0 ? { row: row - 1, col: columns.length - 1 } : { row, col };
+    }
+    if (col < columns.length - 1) return { row, col: col + 1 };
+    return row < rowCount - 1 ? { row: row + 1, col: 0 } : { row, col };
+  };
+
+  const performNavigation = (e: KeyboardEvent) => {
+    if (!_.isNil(state.editing)) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelEditing();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        editNext(nextCell(state.editing, e.shiftKey));
+      }
+      return;
+    }
+    if (e.isComposing || !_.isEmpty(state.selectedRows)) return;
+
+    const ctrlKey = e.ctrlKey || e.metaKey;
+    const current = state.activeCell ?? state.selectedCells?.start;
+    const lastRow = rowCount - 1;
+    const lastCol = columns.length - 1;
+
+    if (ctrlKey && e.key.toLowerCase() === 'a') {
+      if (data.length === 0 || columns.length === 0) return;
+      e.preventDefault();
+      selectRange({ row: data.length - 1, col: lastCol }, { row: 0, col: 0 });
+      return;
+    }
+
+    if (!current) {
+      if (_.includes(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown', 'Tab'], e.key)) {
+        e.preventDefault();
+        moveTo({ row: 0, col: 0 });
+      }
+      return;
+    }
+
+    let target: Position | undefined;
+    switch (e.key) {
+      case 'ArrowUp': target = { row: ctrlKey ? 0 : current.row - 1, col: current.col }; break;
+      case 'ArrowDown': target = { row: ctrlKey ? lastRow : current.row + 1, col: current.col }; break;
+      case 'ArrowLeft': target = { row: current.row, col: ctrlKey ? 0 : current.col - 1 }; break;
+      case 'ArrowRight': target = { row: current.row, col: ctrlKey ? lastCol : current.col + 1 }; break;
+      case 'Home': target = { row: ctrlKey ? 0 : current.row, col: 0 }; break;
+      case 'End': target = { row: ctrlKey ? lastRow : current.row, col: lastCol }; break;
+      case 'PageUp': target = { row: current.row - pageSize(), col: current.col }; break;
+      case 'PageDown': target = { row: current.row + pageSize(), col: current.col }; break;
+      case 'Tab': target = nextCell(current, e.shiftKey); break;
+      case 'Enter':
+      case 'F2':
+        e.preventDefault();
+        startEditing(current);
+        return;
+      case 'Escape':
+        if (!_.isEmpty(state.selectedCells)) clearSelection();
+        return;
+      default: return;
+    }
+    e.preventDefault();
+    moveTo(target, e.shiftKey && e.key !== 'Tab');
+  };
+
   const encodeClipboard = (e: ClipboardEvent | KeyboardEvent, clipboardData: any[][]) => {
     const _encoders = {
       ...defaultEncoders,
@@ -222,7 +431,20 @@ const DataSheetTable = <T extends object, C extends Column>({
         let hasSelectionChanged = false;
         let newState = currentState;
 
-        if (!_.isEmpty(currentState._selectRows)) {
+        if (currentState._fill) {
+          hasSelectionChanged = true;
+          const { source, target } = currentState._fill;
+          const range = fillRange(source, target);
+          if (!_.isEqual(range, source) && _.isFunction(onFillCells)) {
+            setTimeout(() => onFillCells(source, range, handler), 0);
+          }
+          newState = {
+            ..._.omit(currentState, ...selectionKeys, 'editing'),
+            selectedCells: range,
+            activeCell: range.end,
+            anchorCell: range.start,
+          };
+        } else if (!_.isEmpty(currentState._selectRows)) {
           hasSelectionChanged = true;
           const _rows = _.range(
             Math.min(currentState._selectRows.start, currentState._selectRows.end),
@@ -260,6 +482,8 @@ const DataSheetTable = <T extends object, C extends Column>({
           newState = {
             ..._.omit(currentState, ...selectionKeys, 'editing'),
             selectedCells: finalBound,
+            activeCell: currentState._selectEnd,
+            anchorCell: currentState._selectStart,
           };
         }
 
@@ -280,6 +504,9 @@ const DataSheetTable = <T extends object, C extends Column>({
     handleKeyDown: (e: KeyboardEvent) => {
       if (!allowSelection) return;
 
+      // Handle cell navigation and editing keys
+      performNavigation(e);
+
       // Handle copy
       if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
         performCopy(e);
@@ -290,6 +517,29 @@ const DataSheetTable = <T extends object, C extends Column>({
         performPaste(e);
       }
 
+      // Handle undo / redo (leave editors to their native undo while editing)
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && _.isNil(state.editing)) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          if (_.isFunction(onRedo)) onRedo(handler);
+        } else {
+          if (_.isFunction(onUndo)) onUndo(handler);
+        }
+      }
+
+      // Handle fill down / fill right from the first row or column of the selection
+      const fillKey = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (fillKey === 'd' || fillKey === 'r') && _.isNil(state.editing) && !_.isEmpty(state.selectedCells)) {
+        const cells = state.selectedCells;
+        const source = fillKey === 'd'
+          ? { start: cells.start, end: { row: cells.start.row, col: cells.end.col } }
+          : { start: cells.start, end: { row: cells.end.row, col: cells.start.col } };
+        if (!_.isEqual(source, cells)) {
+          e.preventDefault();
+          if (_.isFunction(onFillCells)) onFillCells(source, cells, handler);
+        }
+      }
+
       // Handle delete
       if (e.key === 'Backspace' || e.key === 'Delete') {
         const selectedRows = state.selectedRows?.sort().filter(x => x < data.length) ?? [];
@@ -341,6 +591,8 @@ const DataSheetTable = <T extends object, C extends Column>({
         stickyRowNumbers={stickyRowNumbers}
         columnWidth={columnWidth}
         columnMinWidth={columnMinWidth}
+        virtualRange={virtualRange}
+        columnLayout={columnLayout}
         onColumnWidthChange={onColumnWidthChange && ((col, width) => onColumnWidthChange(col, width, handler))}
       />
       <DataSheetBody
@@ -348,11 +600,16 @@ const DataSheetTable = <T extends object, C extends Column>({
         columns={columns}
         startRowNumber={startRowNumber}
         renderItem={(x) => renderItem(x, handler)}
+        renderRowNumber={renderRowNumber && ((x) => renderRowNumber(x, handler))}
         allowSelection={allowSelection}
         allowEditForCell={allowEditForCell}
+        allowFill={_.isFunction(onFillCells)}
         stickyRowNumbers={stickyRowNumbers}
         showEmptyLastRow={showEmptyLastRow}
         highlightColor={effectiveHighlightColor}
+        virtualRange={virtualRange}
+        rowHeight={effectiveRowHeight}
+        columnLayout={columnLayout}
         onStartEditing={onStartEditing && ((row, col) => onStartEditing(row, col, handler))}
       />
     </table>
@@ -24,24 +24,30 @@
 //
 
 import _ from 'lodash';
-import { Column, DataSheetProps, RanderItemParams } from '../types';
+import { Column, DataSheetProps, RanderItemParams, RanderRowNumberParams } from '../types';
 import { useDataSheetContext } from '../context';
 import { useTheme } from '../../theme';
 import { useStyle } from '../../style';
 import { RowNumberCell } from './rowNumberCell';
 import { BodyCell } from './bodyCell';
 import { ElementNode, useCallback } from 'frosty';
+import { ColumnLayout, VirtualRange } from '../virtual';
 
 type DataSheetBodyProps<T extends object, C extends Column> = {
   data: T[];
   columns: C[];
   startRowNumber?: number;
   renderItem: (x: RanderItemParams<T, C>) => ElementNode;
+  renderRowNumber?: (x: RanderRowNumberParams<T>) => ElementNode;
   allowSelection?: boolean;
   allowEditForCell?: boolean | ((row: number, col: number) => boolean);
+  allowFill?: boolean;
   stickyRowNumbers?: boolean;
   showEmptyLastRow?: boolean;
   highlightColor: string;
+  virtualRange?: VirtualRange;
+  rowHeight: number;
+  columnLayout: ColumnLayout;
   onStartEditing?: (row: number, col: number) => void;
 };
 
@@ -50,11 +56,16 @@ export const DataSheetBody = <T extends object, C extends Column>({
   columns,
   startRowNumber,
   renderItem,
+  renderRowNumber,
   allowSelection,
   allowEditForCell,
+  allowFill,
   stickyRowNumbers,
   showEmptyLastRow,
   highlightColor,
+  virtualRange,
+  rowHeight,
+  columnLayout,
   onStartEditing,
 }: DataSheetBodyProps<T, C>) => {
   const { state, setState, isCellEditing } = useDataSheetContext();
@@ -99,6 +110,13 @@ export const DataSheetBody = <T extends object, C extends Column>({
     const col = cell.dataset.col ?? '';
 
     setState(currentState => {
+      if (currentState._fill) {
+        if (_.isEmpty(col)) return currentState;
+        return {
+          ...currentState,
+          _fill: { ...currentState._fill, target: { row: Number(row), col: Number(col) } },
+        };
+      }
       if (_.isEmpty(col)) {
         if (currentState._selectRows) {
           return {
@@ -122,67 +140,99 @@ export const DataSheetBody = <T extends object, C extends Column>({
     });
   }, [setState]);
 
+  // Skipped rows and columns are replaced by spacers of the same size
+  const [rowStart, rowEnd] = virtualRange?.rows ?? [0, data.length];
+  const renderedCount = columnLayout.leading.length + columnLayout.scrolling.length + columnLayout.trailing.length;
+  const rowStyle = virtualRange ? { height: rowHeight } : undefined;
+  const spacerRow = (height: number) => height > 0 && (
+    <tr style={{ height }}>
+      <td colSpan={renderedCount + 3} style={{ padding: 0, border: 0 }} />
+    </tr>
+  );
+  const spacerCell = (width: number) => virtualRange && (
+    <td style={{ width, minWidth: width, maxWidth: width, padding: 0, border: 0 }} />
+  );
+
+  const renderCell = (row: number, col: number) => {
+    const column = columns[col];
+    const key = _.isString(column) ? column : column.key;
+    return (
+      <BodyCell
+        key={col}
+        row={row}
+        col={col}
+        highlightColor={highlightColor}
+        allowEditForCell={allowEditForCell}
+        allowFill={allowFill}
+        rowNumbers={!_.isNil(startRowNumber)}
+        pinnedStyle={columnLayout.pinnedStyle(col)}
+        onStartEditing={onStartEditing}
+      >
+        <span style={{
+          fontFamily: 'monospace',
+          display: 'inline-block',
+          minHeight: theme.fontSize.md,
+          lineHeight: `${theme.fontSize.md}px`,
+        }}>{' '}</span>
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: 0,
+            right: 0,
+            padding: isCellEditing(row, col) ? 0 : theme.spacing.xs,
+          }}
+        >
+          {renderItem({
+            item: data[row],
+            column,
+            columnKey: key,
+            rowIdx: row,
+            columnIdx: col,
+            isEditing: isCellEditing(row, col),
+          })}
+        </div>
+      </BodyCell>
+    );
+  };
+
+  const renderCells = (row: number) => (
+    <>
+      {_.map(columnLayout.leading, col => renderCell(row, col))}
+      {spacerCell(columnLayout.spacerBefore)}
+      {_.map(columnLayout.scrolling, col => renderCell(row, col))}
+      {spacerCell(columnLayout.spacerAfter)}
+      {_.map(columnLayout.trailing, col => renderCell(row, col))}
+    </>
+  );
+
   return (
     <tbody
       style={{ backgroundColor: style.datasheet.bodyBg }}
       onMouseDown={allowSelection && !state.editing ? handleMouseDown : undefined}
       onMouseOver={allowSelection && !state.editing ? handleMouseOver : undefined}
     >
-      {_.map(data, (item, row) => (
-        <tr key={row}>
+      {virtualRange && spacerRow(rowStart * rowHeight)}
+      {_.map(_.range(rowStart, rowEnd), (row) => (
+        <tr key={row} style={rowStyle}>
           {!_.isNil(startRowNumber) && (
             <RowNumberCell
               row={row}
               highlightColor={highlightColor}
               stickyRowNumbers={stickyRowNumbers}
             >
-              <span style={{ fontFamily: 'monospace' }}>{row + startRowNumber}</span>
+              {renderRowNumber
+                ? renderRowNumber({ item: data[row], rowIdx: row, rowNumber: row + startRowNumber })
+                : <span style={{ fontFamily: 'monospace' }}>{row + startRowNumber}</span>}
             </RowNumberCell>
           )}
-          {_.map(columns, (column, col) => {
-            const key = _.isString(column) ? column : column.key;
-            return (
-              <BodyCell
-                key={col}
-                row={row}
-                col={col}
-                highlightColor={highlightColor}
-                allowEditForCell={allowEditForCell}
-                rowNumbers={!_.isNil(startRowNumber)}
-                onStartEditing={onStartEditing}
-              >
-                <span style={{
-                  fontFamily: 'monospace',
-                  display: 'inline-block',
-                  minHeight: theme.fontSize.md,
-                  lineHeight: `${theme.fontSize.md}px`,
-                }}>{' '}</span>
-                <div
-                  style={{
-                    position: 'absolute',
-                    top: 0,
-                    bottom: 0,
-                    left: 0,
-                    right: 0,
-                    padding: isCellEditing(row, col) ? 0 : theme.spacing.xs,
-                  }}
-                >
-                  {renderItem({
-                    item,
-                    column,
-                    columnKey: key,
-                    rowIdx: row,
-                    columnIdx: col,
-                    isEditing: isCellEditing(row, col),
-                  })}
-                </div>
-              </BodyCell>
-            );
-          })}
+          {renderCells(row)}
         </tr>
       ))}
+      {virtualRange && spacerRow((data.length - rowEnd) * rowHeight)}
       {showEmptyLastRow === true && (
-        <tr>
+        <tr style={rowStyle}>
           {!_.isNil(startRowNumber) && (
             <RowNumberCell
               row={data.length}
@@ -190,45 +240,7 @@ export const DataSheetBody = <T extends object, C extends Column>({
               stickyRowNumbers={stickyRowNumbers}
             />
           )}
-          {_.map(columns, (column, col) => {
-            const key = _.isString(column) ? column : column.key;
-            return (
-              <BodyCell
-                key={col}
-                row={data.length}
-                col={col}
-                highlightColor={highlightColor}
-                allowEditForCell={allowEditForCell}
-                rowNumbers={!_.isNil(startRowNumber)}
-                onStartEditing={onStartEditing}
-              >
-                <span style={{
-                  fontFamily: 'monospace',
-                  display: 'inline-block',
-                  minHeight: theme.fontSize.md,
-                  lineHeight: `${theme.fontSize.md}px`,
-                }}>{' '}</span>
-                <div
-                  style={{
-                    position: 'absolute',
-                    top: 0,
-                    bottom: 0,
-                    left: 0,
-                    right: 0,
-                    padding: isCellEditing(data.length, col) ? 0 : theme.spacing.xs,
-                  }}
-                >
-                  {renderItem({
-                    column,
-                    columnKey: key,
-                    rowIdx: data.length,
-                    columnIdx: col,
-                    isEditing: isCellEditing(data.length, col),
-                  })}
-                </div>
-              </BodyCell>
-            );
-          })}
+          {renderCells(data.length)}
         </tr>
       )}
     </tbody>
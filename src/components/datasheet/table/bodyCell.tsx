@@ -35,6 +35,8 @@ type BodyCellProps = PropsWithChildren<{
   rowNumbers?: boolean;
   highlightColor: string;
   allowEditForCell?: boolean | ((row: number, col: number) => boolean);
+  allowFill?: boolean;
+  pinnedStyle?: { position: 'sticky'; left?: number; right?: number; };
   onStartEditing?: (row: number, col: number) => void;
 }>;
 
@@ -44,6 +46,8 @@ export const BodyCell = ({
   rowNumbers,
   highlightColor,
   allowEditForCell,
+  allowFill,
+  pinnedStyle,
   onStartEditing,
   children,
 }: BodyCellProps) => {
@@ -68,7 +72,8 @@ export const BodyCell = ({
     borderBottomColor: isRowSelected(row) || isRowSelected(row + 1) || isCellSelected(row, col) || isCellSelected(row + 1, col) ? selectedBorderColor : borderColor,
     backgroundColor: row % 2 === 0 ? evenRowBg : oddRowBg,
     cursor: state.editing ? 'default' : 'cell',
-  }), [state.editing, isRowSelected(row), isCellSelected(row, col), isCellSelected(row, col + 1), isCellSelected(row + 1, col), row, col, rowNumbers]);
+    ...pinnedStyle && { ...pinnedStyle, zIndex: 1 },
+  }), [state.editing, isRowSelected(row), isCellSelected(row, col), isCellSelected(row, col + 1), isCellSelected(row + 1, col), row, col, rowNumbers, pinnedStyle?.left, pinnedStyle?.right]);
 
   const selectedCellStyle = useMemo(() => ({
     padding: 0,
@@ -81,19 +86,34 @@ export const BodyCell = ({
     borderColor: selectedBorderColor,
     backgroundColor: row % 2 === 0 ? evenRowBg : oddRowBg,
     cursor: state.editing ? 'default' : 'cell',
-  }), [state.editing, row, col, rowNumbers]);
+    ...pinnedStyle && { ...pinnedStyle, zIndex: 1 },
+  }), [state.editing, row, col, rowNumbers, pinnedStyle?.left, pinnedStyle?.right]);
 
   const allowEdit = _.isFunction(allowEditForCell) ? allowEditForCell(row, col) : !!allowEditForCell;
   
   const handleDoubleClick = () => {
     if (allowEdit) {
-      setState({ editing: { row, col } });
+      setState({ editing: { row, col }, activeCell: { row, col }, anchorCell: { row, col } });
       if (_.isFunction(onStartEditing)) {
         onStartEditing(row, col);
       }
     }
   };
 
+  // The fill handle sits on the bottom right corner of the selected cells
+  const showFillHandle = allowFill === true
+    && _.isNil(state.editing) && _.isNil(state._selectStart) && _.isNil(state._fill)
+    && state.selectedCells?.end.row === row && state.selectedCells?.end.col === col;
+
+  const handleFillStart = (e: MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setState(state => state.selectedCells ? {
+      ..._.omit(state, '_selectStart', '_selectEnd', '_selectRows'),
+      _fill: { source: state.selectedCells, target: state.selectedCells.end },
+    } : state);
+  };
+
   return (
     <DataSheetCell
       isEditing={isCellEditing(row, col)}
@@ -106,6 +126,22 @@ export const BodyCell = ({
       selectedStyle={selectedCellStyle}
     >
       {children}
+      {showFillHandle && (
+        <div
+          onMouseDown={handleFillStart}
+          style={{
+            position: 'absolute',
+            right: 0,
+            bottom: 0,
+            width: 6,
+            height: 6,
+            backgroundColor: selectedBorderColor,
+            border: '1px solid #ffffff',
+            cursor: 'crosshair',
+            zIndex: 1,
+          }}
+        />
+      )}
     </DataSheetCell>
   );
 };
@@ -30,6 +30,7 @@ import { useTheme } from '../../theme';
 import { useStyle } from '../../style';
 import { _useCallbacks, useEffect, useState } from 'frosty';
 import { useDocument } from 'frosty/web';
+import { ColumnLayout, VirtualRange } from '../virtual';
 
 type DataSheetHeaderProps<C extends Column> = {
   columns: C[];
@@ -38,6 +39,8 @@ type DataSheetHeaderProps<C extends Column> = {
   stickyRowNumbers?: boolean;
   columnWidth?: number[];
   columnMinWidth?: number;
+  virtualRange?: VirtualRange;
+  columnLayout: ColumnLayout;
   onColumnWidthChange?: (col: number, width: number) => void;
 };
 
@@ -48,6 +51,8 @@ export const DataSheetHeader = <C extends Column>({
   stickyRowNumbers,
   columnWidth,
   columnMinWidth = 64,
+  virtualRange,
+  columnLayout,
   onColumnWidthChange,
 }: DataSheetHeaderProps<C>) => {
   const { state, isRowSelected, isCellSelected } = useDataSheetContext();
@@ -101,11 +106,80 @@ export const DataSheetHeader = <C extends Column>({
     zIndex: 3,
   } : {};
 
+  // Skipped columns are replaced by spacers of the same width
+  const spacerStyle = (width: number) => ({
+    width,
+    minWidth: width,
+    maxWidth: width,
+    padding: 0,
+    border: 0,
+    backgroundColor: headerBg,
+  });
+
+  // Pinned columns keep a fixed width so that the sticky offsets line up
+  const renderColumn = (col: number) => {
+    const column = columns[col];
+    const pinnedStyle = columnLayout.pinnedStyle(col);
+    const width = _.isArray(columnWidth) ? columnWidth[col] : undefined;
+    return (
+      <th
+        key={col}
+        style={{
+          position: 'relative',
+          ...pinnedStyle && { ...pinnedStyle, zIndex: 3 },
+          border: `1px solid ${borderColor}`,
+          borderLeft: rowNumbers || col !== 0 ? 0 : `1px solid ${borderColor}`,
+          borderBottomColor: isRowSelected(0) || isCellSelected(0, col) ? selectedBorderColor : borderColor,
+          backgroundColor: headerBg,
+          minWidth: width ?? columnMinWidth,
+          width: pinnedStyle ? width ?? columnMinWidth : width,
+          ...virtualRange || pinnedStyle ? {
+            maxWidth: width ?? columnMinWidth,
+            overflow: 'hidden',
+          } : {},
+          paddingLeft: theme.spacing.sm,
+          paddingRight: theme.spacing.sm,
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.semibold,
+          textAlign: 'left',
+        }}
+      >
+        {_.isString(column) ? column : column.label}
+        {onColumnWidthChange && (
+          <div
+            style={{
+              position: 'absolute',
+              right: 0,
+              top: 0,
+              bottom: 0,
+              width: 6,
+              cursor: 'col-resize',
+              backgroundColor: 'transparent',
+              transition: 'background-color 0.2s ease',
+              '&:hover': {
+                backgroundColor: resizeHandleHoverColor,
+              },
+            }}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              const currentWidth = _.isArray(columnWidth) ? columnWidth[col] : columnMinWidth;
+              setResizing({
+                col,
+                startX: e.clientX,
+                startWidth: currentWidth ?? columnMinWidth,
+              });
+            }}
+          />
+        )}
+      </th>
+    );
+  };
+
   return (
     <thead style={stickyHeaderStyle}>
       <tr style={{ backgroundColor: headerBg }}>
         {rowNumbers && (
-          <th style={{
+          <th data-row-numbers="true" style={{
             ...stickyRowNumberStyle,
             border: `1px solid ${borderColor}`,
             backgroundColor: headerBg,
@@ -117,56 +191,11 @@ export const DataSheetHeader = <C extends Column>({
             textAlign: 'center',
           }} />
         )}
-        {_.map(columns, (column, col) => {
-          const width = _.isArray(columnWidth) ? columnWidth[col] : undefined;
-          return (
-            <th
-              key={col}
-              style={{
-                position: 'relative',
-                border: `1px solid ${borderColor}`,
-                borderLeft: rowNumbers || col !== 0 ? 0 : `1px solid ${borderColor}`,
-                borderBottomColor: isRowSelected(0) || isCellSelected(0, col) ? selectedBorderColor : borderColor,
-                backgroundColor: headerBg,
-                minWidth: width ?? columnMinWidth,
-                width: width,
-                paddingLeft: theme.spacing.sm,
-                paddingRight: theme.spacing.sm,
-                fontSize: theme.fontSize.sm,
-                fontWeight: theme.fontWeight.semibold,
-                textAlign: 'left',
-              }}
-            >
-              {_.isString(column) ? column : column.label}
-              {onColumnWidthChange && (
-                <div
-                  style={{
-                    position: 'absolute',
-                    right: 0,
-                    top: 0,
-                    bottom: 0,
-                    width: 6,
-                    cursor: 'col-resize',
-                    backgroundColor: 'transparent',
-                    transition: 'background-color 0.2s ease',
-                    '&:hover': {
-                      backgroundColor: resizeHandleHoverColor,
-                    },
-                  }}
-                  onMouseDown={(e) => {
-                    e.preventDefault();
-                    const currentWidth = _.isArray(columnWidth) ? columnWidth[col] : columnMinWidth;
-                    setResizing({
-                      col,
-                      startX: e.clientX,
-                      startWidth: currentWidth ?? columnMinWidth,
-                    });
-                  }}
-                />
-              )}
-            </th>
-          );
-        })}
+        {_.map(columnLayout.leading, renderColumn)}
+        {virtualRange && <th style={spacerStyle(columnLayout.spacerBefore)} />}
+        {_.map(columnLayout.scrolling, renderColumn)}
+        {virtualRange && <th style={spacerStyle(columnLayout.spacerAfter)} />}
+        {_.map(columnLayout.trailing, renderColumn)}
       </tr>
     </thead>
   );
@@ -34,8 +34,12 @@ export type DataSheetRef = {
   readonly editing: boolean;
   readonly selectedRows: number[];
   readonly selectedCells: Range<Position> | undefined;
+  readonly activeCell: Position | undefined;
   clearSelection: () => void;
   endEditing: () => void;
+  moveTo: (position: Position, extend?: boolean) => void;
+  startEditing: (position?: Position) => void;
+  cancelEditing: () => void;
 };
 
 export type RanderItemParams<T extends object, C extends Column> = {
@@ -47,6 +51,12 @@ export type RanderItemParams<T extends object, C extends Column> = {
   isEditing: boolean;
 };
 
+export type RanderRowNumberParams<T extends object> = {
+  item?: T;
+  rowIdx: number;
+  rowNumber: number;
+};
+
 export type DataSheetProps<T extends object, C extends Column> = {
   ref?: Ref<DataSheetRef>;
   data: T[];
@@ -60,9 +70,15 @@ export type DataSheetProps<T extends object, C extends Column> = {
   startRowNumber?: number;
   stickyHeader?: boolean;
   stickyRowNumbers?: boolean;
+  pinnedColumns?: number;
+  pinnedTrailingColumns?: number;
   showEmptyLastRow?: boolean;
   highlightColor?: string;
+  virtualized?: boolean;
+  rowHeight?: number;
+  overscan?: number;
   renderItem: (x: RanderItemParams<T, C>, ref: DataSheetRef) => ElementNode;
+  renderRowNumber?: (x: RanderRowNumberParams<T>, ref: DataSheetRef) => ElementNode;
   onColumnWidthChange?: (col: number, width: number, ref: DataSheetRef) => void;
   onSelectionChanged?: VoidFunction;
   onDeleteRows?: (rows: number[], ref: DataSheetRef) => void;
@@ -71,6 +87,11 @@ export type DataSheetProps<T extends object, C extends Column> = {
   onCopyCells?: (cells: Range<Position>, data: Pick<T, keyof T>[], ref: DataSheetRef) => void;
   onPasteRows?: (rows: number[], clipboard: DataTransfer | Clipboard, ref: DataSheetRef) => void;
   onPasteCells?: (cells: Range<Position>, clipboard: DataTransfer | Clipboard, ref: DataSheetRef) => void;
+  onFillCells?: (source: Range<Position>, target: Range<Position>, ref: DataSheetRef) => void;
   onStartEditing?: (row: number, col: number, ref: DataSheetRef) => void;
   onEndEditing?: (row: number, col: number, ref: DataSheetRef) => void;
+  onCancelEditing?: (row: number, col: number, ref: DataSheetRef) => void;
+  onEndReached?: (ref: DataSheetRef) => void;
+  onUndo?: (ref: DataSheetRef) => void;
+  onRedo?: (ref: DataSheetRef) => void;
 };
\ No newline at end of file
@@ -0,0 +1,174 @@
+//
+//  virtual.ts
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { _useCallbacks, RefObject, useEffect, useRef, useState } from 'frosty';
+import { useWindow } from 'frosty/web';
+
+export type VirtualRange = {
+  rows: [number, number];
+  cols: [number, number];
+};
+
+type VirtualWindowOptions = {
+  enabled: boolean;
+  rowCount: number;
+  rowHeight: number;
+  columnWidths: number[];
+  overscan: number;
+  onEndReached?: VoidFunction;
+};
+
+// Find the nearest ancestor that scrolls, falling back to the document viewport
+export const findScrollParent = (element: HTMLElement, win: ReturnType<typeof useWindow>) => {
+  let node = element.parentElement;
+  while (node) {
+    const { overflowX, overflowY } = win.getComputedStyle(node);
+    if (/(auto|scroll)/.test(overflowX + overflowY)) return node;
+    node = node.parentElement;
+  }
+  return undefined;
+};
+
+// Left offset of each column, followed by the total width
+export const columnOffsets = (columnWidths: number[]) => {
+  const offsets = [0];
+  for (const width of columnWidths) offsets.push(offsets[offsets.length - 1] + width);
+  return offsets;
+};
+
+export type ColumnLayout = {
+  leading: number[];
+  scrolling: number[];
+  trailing: number[];
+  // Widths of the skipped columns before and after the scrolling columns
+  spacerBefore: number;
+  spacerAfter: number;
+  pinnedStyle: (col: number) => { position: 'sticky'; left?: number; right?: number; } | undefined;
+};
+
+// Pinned columns are always rendered and stick to the edges, the others follow the virtual range
+export const computeColumnLayout = (
+  columnWidths: number[],
+  virtualRange: VirtualRange | undefined,
+  pinnedColumns: number,
+  pinnedTrailingColumns: number,
+  stickyLeft: number,
+): ColumnLayout => {
+  const count = columnWidths.length;
+  const lead = _.clamp(pinnedColumns, 0, count);
+  const trail = _.clamp(pinnedTrailingColumns, 0, count - lead);
+  const [colStart, colEnd] = virtualRange?.cols ?? [0, count];
+  const start = _.clamp(colStart, lead, count - trail);
+  const end = _.clamp(colEnd, start, count - trail);
+  const offsets = columnOffsets(columnWidths);
+  return {
+    leading: _.range(0, lead),
+    scrolling: _.range(start, end),
+    trailing: _.range(count - trail, count),
+    spacerBefore: offsets[start] - offsets[lead],
+    spacerAfter: offsets[count - trail] - offsets[end],
+    pinnedStyle: (col) => {
+      if (col < lead) return { position: 'sticky', left: stickyLeft + offsets[col] };
+      if (col >= count - trail) return { position: 'sticky', right: offsets[count] - offsets[col + 1] };
+      return undefined;
+    },
+  };
+};
+
+export const useVirtualWindow = (
+  tableRef: RefObject<HTMLTableElement | undefined>,
+  {
+    enabled,
+    rowCount,
+    rowHeight,
+    columnWidths,
+    overscan,
+    onEndReached,
+  }: VirtualWindowOptions,
+) => {
+  const win = useWindow();
+  const initialRange: VirtualRange = { rows: [0, Math.min(rowCount, overscan * 2)], cols: [0, columnWidths.length] };
+  const [range, setRange] = useState<VirtualRange>(initialRange);
+  const endReached = useRef(false);
+
+  const { update } = _useCallbacks({
+    update: () => {
+      const table = tableRef.current;
+      const tbody = table?.tBodies[0];
+      if (!table || !tbody) return;
+
+      const container = findScrollParent(table, win);
+      const viewport = container ? container.getBoundingClientRect() : { top: 0, left: 0, bottom: win.innerHeight, right: win.innerWidth };
+      const body = tbody.getBoundingClientRect();
+
+      // Visible region relative to the first data row and the first data column
+      const header = table.tHead?.rows[0];
+      const rowNumberWidth = header && header.cells.length > 0 && header.cells[0].dataset.rowNumbers ? header.cells[0].offsetWidth : 0;
+      const visibleTop = viewport.top - body.top;
+      const visibleBottom = viewport.bottom - body.top;
+      const visibleLeft = viewport.left - body.left - rowNumberWidth;
+      const visibleRight = viewport.right - body.left - rowNumberWidth;
+
+      const rowStart = _.clamp(Math.floor(visibleTop / rowHeight) - overscan, 0, rowCount);
+      const rowEnd = _.clamp(Math.ceil(visibleBottom / rowHeight) + overscan, rowStart, rowCount);
+
+      const offsets = columnOffsets(columnWidths);
+      const colStart = _.clamp(_.findIndex(offsets, x => x > visibleLeft) - 2, 0, columnWidths.length);
+      const firstHidden = _.findIndex(offsets, x => x > visibleRight);
+      const colEnd = firstHidden === -1 ? columnWidths.length : _.clamp(firstHidden + 1, colStart, columnWidths.length);
+
+      const next: VirtualRange = { rows: [rowStart, rowEnd], cols: [colStart, colEnd] };
+      if (enabled && !_.isEqual(next, range)) setRange(next);
+
+      const reached = visibleBottom >= body.height - rowHeight * overscan;
+      if (reached !== endReached.current) {
+        endReached.current = reached;
+        if (reached && _.isFunction(onEndReached)) onEndReached();
+      }
+    },
+  });
+
+  useEffect(() => {
+    const table = tableRef.current;
+    if (!table || (!enabled && !onEndReached)) return;
+    const container = findScrollParent(table, win) ?? win;
+    container.addEventListener('scroll', update, { passive: true });
+    win.addEventListener('resize', update);
+    update();
+    return () => {
+      container.removeEventListener('scroll', update);
+      win.removeEventListener('resize', update);
+    };
+  }, [enabled, !onEndReached]);
+
+  // Recalculate when the content changes, new rows may need another end reached event
+  useEffect(() => {
+    endReached.current = false;
+    update();
+  }, [rowCount, rowHeight, columnWidths.join(',')]);
+
+  return enabled ? range : undefined;
+};
@@ -24,11 +24,16 @@
 //
 
 import _ from 'lodash';
-import { useProto, useProtoSchema } from '../../proto';
+import { QueryFilter, useProto, useProtoSchema } from '../../proto';
+import { expandColumns, quickSearchFilter } from '../../schema';
 import { useLocation } from 'frosty/web';
-import { useResource } from 'frosty';
+import { useResource, useState } from 'frosty';
 import { useStyle } from '../style';
 import { Page, useMatch, useNavigate } from '../router';
+import { encodeFiltersToURLParams } from '../../pages/browser/filter';
+
+// Number of object ids listed per class in the search results
+const SEARCH_HITS_LIMIT = 5;
 
 const MenuItem = ({
   label,
@@ -67,12 +72,154 @@ const MenuItem = ({
   );
 };
 
+const ObjectSearch = () => {
+  const style = useStyle();
+  const proto = useProto();
+  const schema = useProtoSchema();
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+
+  const openObject = (className: string, id: string) => {
+    const params = new URLSearchParams();
+    encodeFiltersToURLParams([{ _id: { $eq: id } }], params, proto);
+    navigate(`/classes/${className}?${params.toString()}`);
+  };
+
+  // Search every class for a matching id or text, debounced while typing
+  const { resource: hits, loading } = useResource({
+    fetch: async () => {
+      const text = input.trim();
+      if (_.isEmpty(text)) return [];
+
+      const results = await Promise.all(_.map(_.keys(schema).sort(), async (key) => {
+        try {
+          const searchFilter = quickSearchFilter(expandColumns(schema[key].fields), text);
+          const idFilter: QueryFilter = { _id: { $eq: text } };
+          const query = proto.Query(key).filter(searchFilter ? { $or: [idFilter, searchFilter] } : idFilter);
+          const [count, objects] = await Promise.all([
+            query.count({ master: true }),
+            query.clone().limit(SEARCH_HITS_LIMIT).find({ master: true }),
+          ]);
+          return { key, count, ids: _.compact(_.map(objects, obj => obj.id)) };
+        } catch (error) {
+          console.error(`Failed to search ${key}:`, error);
+          return { key, count: 0, ids: [] };
+        }
+      }));
+      return _.filter(results, ({ count }) => count > 0);
+    },
+    debounce: { wait: 400 },
+  }, [proto, schema, input]);
+
+  const text = input.trim();
+
+  return (
+    <div style={{ padding: `0 ${style.spacing.md}px` }}>
+      <input
+        type="search"
+        placeholder="Find object by id or text"
+        value={input}
+        onInput={(e) => setInput((e.target as HTMLInputElement).value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setInput('');
+        }}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: `${style.spacing.xs}px ${style.spacing.sm}px`,
+          fontSize: `${style.listItem.fontSize}px`,
+          color: style.menu.textColor,
+          background: 'transparent',
+          border: `1px solid ${style.menu.borderColor}`,
+          borderRadius: `${style.borderRadius.sm}px`,
+          outline: 'none',
+        }}
+      />
+      {!_.isEmpty(text) && (
+        <div style={{ marginTop: `${style.spacing.xs}px` }}>
+          {loading && _.isEmpty(hits) && (
+            <div style={{
+              padding: style.listItem.padding,
+              fontSize: `${style.listItem.fontSize - 2}px`,
+              color: style.listItem.textColor,
+            }}>
+              Searching...
+            </div>
+          )}
+          {!loading && _.isEmpty(hits) && (
+            <div style={{
+              padding: style.listItem.padding,
+              fontSize: `${style.listItem.fontSize - 2}px`,
+              color: style.listItem.textColor,
+            }}>
+              No objects found
+            </div>
+          )}
+          {_.map(hits, ({ key, count, ids }) => (
+            <div key={key} style={{ marginBottom: `${style.spacing.xs}px` }}>
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: `${style.spacing.xs}px ${style.spacing.sm}px`,
+                  cursor: 'pointer',
+                  fontSize: `${style.listItem.fontSize}px`,
+                  fontWeight: style.fontWeight.medium,
+                  color: style.menu.textColor,
+                  '&:hover': {
+                    backgroundColor: style.listItem.hoverBackground,
+                  },
+                }}
+                onClick={() => count === 1
+                  ? openObject(key, ids[0])
+                  : navigate(`/classes/${key}?q=${encodeURIComponent(text)}`)}
+              >
+                <span>{key}</span>
+                <span style={{
+                  fontSize: `${style.listItem.fontSize - 2}px`,
+                  opacity: 0.6,
+                  fontWeight: style.fontWeight.normal,
+                }}>
+                  {count}
+                </span>
+              </div>
+              {_.map(ids, id => (
+                <div
+                  key={id}
+                  style={{
+                    padding: `2px ${style.spacing.sm}px 2px ${style.spacing.lg}px`,
+                    cursor: 'pointer',
+                    fontSize: `${style.listItem.fontSize - 2}px`,
+                    fontFamily: 'monospace',
+                    color: style.listItem.textColor,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    '&:hover': {
+                      backgroundColor: style.listItem.hoverBackground,
+                      color: style.menuItem.textColor,
+                    },
+                  }}
+                  onClick={() => openObject(key, id)}
+                >
+                  {id}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const SchemaList = () => {
   const style = useStyle();
   const proto = useProto();
   const schema = useProtoSchema();
   const match = useMatch();
-  const selected = match('/classes/:schema') || undefined;
+  const selected = match('/classes/:schema') || match('/classes/:schema/:id') || undefined;
 
   const navigate = useNavigate();
 
@@ -230,6 +377,8 @@ export const Menu = ({ pages }: MenuProps) => {
         paddingTop: `${style.spacing.md}px`,
         paddingBottom: `${style.spacing.xl}px`,
       }}>
+        <ObjectSearch />
+
         <MenuItem
           label="Dashboard"
           isActive={location.pathname === '/'}
@@ -33,6 +33,7 @@ import { Menu } from './components/menu';
 import { createPages, Outlet, Page, Route, Routes } from './components/router';
 import { HomePage } from './pages/home';
 import { BrowserPage } from './pages/browser';
+import { ObjectPage } from './pages/object';
 import { ConfigPage } from './pages/config';
 import { NotFoundPage } from './pages/notfound';
 import { AlertProvider, useAlert } from './components/alert';
@@ -82,6 +83,7 @@ const Main = ({ pages, basePath }: {
       <Routes path={basePath} element={<Layout pages={pages} />}>
         <Route title='Dashboard' index element={<HomePage />} />
         <Route title={({ schema } = {}) => `${schema}`} path="/classes/:schema" element={<BrowserPage />} />
+        <Route title={({ schema, id } = {}) => `${schema} #${id}`} path="/classes/:schema/:id" element={<ObjectPage />} />
         <Route title='Config' path="/config" element={<ConfigPage />} />
         <Route title='Diagram' path="/diagram" element={<DiagramPage />} />
         {pages && createPages(pages)}
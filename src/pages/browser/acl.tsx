@@ -0,0 +1,403 @@
+//
+//  acl.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useResource, useState } from 'frosty';
+import { QueryFilter, TObject, useProto, useProtoSchema } from '../../proto';
+import { expandColumns, quickSearchFilter, searchableColumns } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+
+const PUBLIC_ACL = '*';
+const ROLE_PREFIX = 'role:';
+const SEARCH_LIMIT = 10;
+
+// Permission of an entry over all edited objects, `mixed` when only some objects have it
+type AclState = boolean | 'mixed';
+
+type AclEntry = {
+  key: string;
+  read: AclState;
+  write: AclState;
+};
+
+export type AclChange = {
+  read: string[];
+  write: string[];
+};
+
+const aclLabel = (key: string) => {
+  if (key === PUBLIC_ACL) return 'Public';
+  if (key.startsWith(ROLE_PREFIX)) return `Role: ${key.slice(ROLE_PREFIX.length)}`;
+  return `User: ${key}`;
+};
+
+const stateOf = (objects: TObject[], key: string, perm: 'read' | 'update'): AclState => {
+  const count = _.filter(objects, obj => _.includes(obj.acl()[perm], key)).length;
+  return count === 0 ? false : count === objects.length ? true : 'mixed';
+};
+
+const applyState = (perms: string[], key: string, state: AclState) => {
+  if (state === 'mixed') return perms;
+  return state ? _.uniq([...perms, key]) : _.without(perms, key);
+};
+
+// Compute the resulting permission arrays of an object
+export const applyAclEntries = (object: TObject, entries: AclEntry[], removed: string[]): AclChange => {
+  const { read, update } = object.acl();
+  return {
+    read: _.difference(_.reduce(entries, (perms, e) => applyState(perms, e.key, e.read), read), removed),
+    write: _.difference(_.reduce(entries, (perms, e) => applyState(perms, e.key, e.write), update), removed),
+  };
+};
+
+type AclEditorModalProps = {
+  objects: TObject[];
+  onSave: (changes: { object: TObject; acl: AclChange; }[]) => void;
+  onCancel: () => void;
+};
+
+export const AclEditorModal = ({ objects, onSave, onCancel }: AclEditorModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const schemas = useProtoSchema();
+
+  const [entries, setEntries] = useState<AclEntry[]>(() => {
+    const keys = _.uniq(_.flatMap(objects, obj => [...obj.acl().read, ...obj.acl().update]));
+    return _.map(keys, key => ({
+      key,
+      read: stateOf(objects, key, 'read'),
+      write: stateOf(objects, key, 'update'),
+    }));
+  });
+  const [removed, setRemoved] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+
+  // Search users and roles to add
+  const { resource: candidates, loading } = useResource({
+    fetch: async () => {
+      const text = search.trim();
+      if (_.isEmpty(text)) return [];
+      const searchClass = async (className: string, toKey: (obj: TObject) => string, toLabel: (obj: TObject) => string) => {
+        const schema = schemas[className];
+        if (!schema) return [];
+        const searchFilter = quickSearchFilter(expandColumns(schema.fields), text);
+        const idFilter: QueryFilter = { _id: { $eq: text } };
+        const objects = await proto.Query(className)
+          .filter(searchFilter ? { $or: [idFilter, searchFilter] } : idFilter)
+          .limit(SEARCH_LIMIT)
+          .find({ master: true });
+        return _.map(objects, obj => ({ key: toKey(obj), label: toLabel(obj) }));
+      };
+      const userFields = schemas['User'] ? _.map(searchableColumns(expandColumns(schemas['User'].fields)), col => col.key) : [];
+      const [users, roles] = await Promise.all([
+        searchClass('User', obj => obj.id!, obj => _.compact([obj.id, ..._.map(userFields, f => obj.get(f))]).join(' • ')),
+        searchClass('Role', obj => `${ROLE_PREFIX}${obj.get('name')}`, obj => `Role: ${obj.get('name')}`),
+      ]);
+      return [...roles, ...users];
+    },
+    debounce: { wait: 300 },
+  }, [proto, schemas, search]);
+
+  const addEntry = (key: string) => {
+    setRemoved(prev => _.without(prev, key));
+    setEntries(prev => _.some(prev, e => e.key === key) ? prev : [...prev, { key, read: true, write: false }]);
+  };
+
+  const removeEntry = (key: string) => {
+    setRemoved(prev => _.uniq([...prev, key]));
+    setEntries(prev => _.filter(prev, e => e.key !== key));
+  };
+
+  const toggle = (key: string, perm: 'read' | 'write') => {
+    setEntries(prev => _.map(prev, e => e.key === key ? { ...e, [perm]: e[perm] !== true } : e));
+  };
+
+  const preview = _.map(objects, object => ({ object, acl: applyAclEntries(object, entries, removed) }));
+
+  const checkbox = (entry: AclEntry, perm: 'read' | 'write') => (
+    <label style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: theme.spacing.xs,
+      fontSize: theme.fontSize.xs,
+      cursor: 'pointer',
+      opacity: entry[perm] === 'mixed' ? 0.6 : 1,
+    }}>
+      <input
+        type="checkbox"
+        checked={entry[perm] === true}
+        onChange={() => toggle(entry.key, perm)}
+        style={{ cursor: 'pointer' }}
+      />
+      {perm === 'read' ? 'Read' : 'Write'}
+      {entry[perm] === 'mixed' && ' (some)'}
+    </label>
+  );
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '720px',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Permissions {objects.length > 1 ? `(${objects.length} objects)` : `of ${objects[0]?.id ?? 'new object'}`}
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+            {_.isEmpty(entries) && (
+              <div style={{
+                fontSize: theme.fontSize.sm,
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.6,
+              }}>
+                No entries, only the master key can access {objects.length > 1 ? 'these objects' : 'this object'}.
+              </div>
+            )}
+            {_.map(entries, entry => (
+              <div
+                key={entry.key}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: theme.spacing.md,
+                  padding: theme.spacing.sm,
+                  border: `1px solid ${theme.colors['primary-200']}`,
+                  borderRadius: theme.borderRadius.md,
+                }}
+              >
+                <div style={{
+                  flex: 1,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.colorContrast('#ffffff'),
+                  fontFamily: entry.key === PUBLIC_ACL ? 'inherit' : 'monospace',
+                }}>
+                  {aclLabel(entry.key)}
+                </div>
+                {checkbox(entry, 'read')}
+                {checkbox(entry, 'write')}
+                <button
+                  title="Remove entry"
+                  onClick={() => removeEntry(entry.key)}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    padding: theme.spacing.xs,
+                    display: 'flex',
+                    alignItems: 'center',
+                    color: theme.colors.error,
+                    opacity: 0.6,
+                    '&:hover': {
+                      opacity: 1,
+                    },
+                  }}
+                >
+                  <Icon name="trash" size="sm" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: theme.spacing.sm, alignItems: 'center' }}>
+            <input
+              type="text"
+              placeholder="Search users and roles by id or name"
+              value={search}
+              onInput={(e) => setSearch((e.target as HTMLInputElement).value)}
+              style={{
+                flex: 1,
+                padding: `${theme.spacing.sm}px ${theme.spacing.md}px`,
+                fontSize: theme.fontSize.sm,
+                borderRadius: theme.borderRadius.md,
+                border: `1px solid ${theme.colors['primary-300']}`,
+                outline: 'none',
+                backgroundColor: '#ffffff',
+                color: theme.colorContrast('#ffffff'),
+              }}
+            />
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              disabled={_.some(entries, e => e.key === PUBLIC_ACL)}
+              onClick={() => addEntry(PUBLIC_ACL)}
+            >
+              Add public
+            </Button>
+          </div>
+          {!_.isEmpty(search.trim()) && (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              border: `1px solid ${theme.colors['primary-200']}`,
+              borderRadius: theme.borderRadius.md,
+              maxHeight: '180px',
+              overflow: 'auto',
+            }}>
+              {_.isEmpty(candidates) && (
+                <div style={{
+                  padding: theme.spacing.sm,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.colorContrast('#ffffff'),
+                  opacity: 0.6,
+                }}>
+                  {loading ? 'Searching...' : 'No users or roles found'}
+                </div>
+              )}
+              {_.map(candidates, candidate => (
+                <div
+                  key={candidate.key}
+                  onClick={() => addEntry(candidate.key)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: theme.spacing.sm,
+                    padding: theme.spacing.sm,
+                    fontSize: theme.fontSize.sm,
+                    color: theme.colorContrast('#ffffff'),
+                    cursor: 'pointer',
+                    '&:hover': {
+                      backgroundColor: theme.colors['primary-100'],
+                    },
+                  }}
+                >
+                  <Icon name="plus" size="sm" />
+                  <span style={{ fontFamily: 'monospace' }}>{candidate.label}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Preview */}
+          <div>
+            <div style={{
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.colors.primary,
+              marginBottom: theme.spacing.xs,
+            }}>
+              Preview
+            </div>
+            <div style={{
+              fontFamily: 'monospace',
+              fontSize: theme.fontSize.xs,
+              padding: theme.spacing.sm,
+              borderRadius: theme.borderRadius.md,
+              backgroundColor: theme.colors['primary-100'],
+              color: theme.colorContrast(theme.colors['primary-100']),
+              maxHeight: '160px',
+              overflow: 'auto',
+            }}>
+              {_.map(_.take(preview, 5), ({ object, acl }, idx) => (
+                <div key={object.id ?? idx} style={{ marginBottom: theme.spacing.xs }}>
+                  {objects.length > 1 && <div style={{ opacity: 0.6 }}>{object.id}</div>}
+                  <div>_rperm: {JSON.stringify(acl.read)}</div>
+                  <div>_wperm: {JSON.stringify(acl.write)}</div>
+                </div>
+              ))}
+              {preview.length > 5 && <div style={{ opacity: 0.6 }}>... and {preview.length - 5} more</div>}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            onClick={() => onSave(preview)}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,375 @@
+//
+//  bulkUpdate.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useRef, useState } from 'frosty';
+import { TQuery, TSchema, useProto } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { DangerConfirmModal } from './dangerConfirm';
+import { BatchResult, decodeRawValue, encodeValue, errorMessage, runBatches } from './utils';
+import { compactTdStyle, compactThStyle } from './tableStyle';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+type DryRun = {
+  field: string;
+  value: any;
+  count: number;
+};
+
+const BATCH_SIZE = 100;
+
+const inputStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type BulkUpdateModalProps = {
+  className: string;
+  columns: Column[];
+  // Filtered query of the browser, may be a relation query
+  query: TQuery;
+  onDone: (updated: number) => void;
+  onCancel: () => void;
+};
+
+export const BulkUpdateModal = ({ className, columns, query, onDone, onCancel }: BulkUpdateModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+
+  const [field, setField] = useState(columns[0]?.key ?? '');
+  const [text, setText] = useState('');
+  const [setNull, setSetNull] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRun>();
+  const [error, setError] = useState<string>();
+  const [confirming, setConfirming] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [processed, setProcessed] = useState<number>();
+  const [result, setResult] = useState<BatchResult>();
+  const controller = useRef<AbortController>();
+
+  const column = _.find(columns, col => col.key === field);
+
+  const reset = () => {
+    setDryRun(undefined);
+    setError(undefined);
+  };
+
+  const handleDryRun = async () => {
+    if (!column) return;
+    setError(undefined);
+    try {
+      const value = setNull ? null : await decodeRawValue(proto, column.fieldType, text);
+      if (_.isUndefined(value)) throw new Error(`Invalid value for ${typeOf(column.fieldType)} field ${column.key}`);
+      const count = await query.count({ master: true });
+      setDryRun({ field: column.key, value, count });
+    } catch (error) {
+      setDryRun(undefined);
+      setError(errorMessage(error));
+    }
+  };
+
+  // Update the matched objects by id
+  const handleRun = async () => {
+    if (!dryRun) return;
+    const abort = new AbortController();
+    controller.current = abort;
+    setConfirming(false);
+    setIsRunning(true);
+    setProcessed(0);
+    const update = { [dryRun.field]: { $set: dryRun.value } };
+    const summary = await runBatches(query, {
+      batch: async (ids) => (await proto.Query(className).filter({ _id: { $in: ids } }).updateMany(update, { master: true })).length,
+      one: async (id) => { await proto.Query(className).filter({ _id: { $eq: id } }).updateOne(update, { master: true }); },
+    }, { batchSize: BATCH_SIZE, signal: abort.signal, onProgress: setProcessed });
+    controller.current = undefined;
+    setIsRunning(false);
+    setResult(summary);
+  };
+
+  const progress = dryRun && dryRun.count > 0 ? Math.min(1, (processed ?? 0) / dryRun.count) : 0;
+
+  return (
+    <>
+      <Modal show={true}>
+        <div style={{
+          width: '600px',
+          maxWidth: '90vw',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: '#ffffff',
+          borderRadius: theme.borderRadius.lg,
+          boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+        }}>
+          {/* Header */}
+          <div style={{
+            padding: theme.spacing.lg,
+            borderBottom: `1px solid ${theme.colors['primary-200']}`,
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}>
+            <h3 style={{
+              margin: 0,
+              fontSize: theme.fontSize.lg,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.colors.primary,
+            }}>
+              Set Field for All Matching - {className}
+            </h3>
+            <button
+              onClick={result ? () => onDone(result.succeeded) : onCancel}
+              disabled={isRunning}
+              style={{
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                padding: theme.spacing.xs,
+                display: 'flex',
+                alignItems: 'center',
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.6,
+                '&:hover': {
+                  opacity: 1,
+                },
+              }}
+            >
+              <Icon name="close" size="sm" />
+            </button>
+          </div>
+
+          {/* Body */}
+          <div style={{
+            flex: 1,
+            overflow: 'auto',
+            padding: theme.spacing.lg,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: theme.spacing.md,
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', alignItems: 'center', gap: theme.spacing.sm }}>
+              <span>Field</span>
+              <select
+                value={field}
+                disabled={isRunning || !!result}
+                onChange={(e) => {
+                  setField(e.currentTarget.value);
+                  reset();
+                }}
+                style={inputStyle(theme)}
+              >
+                {_.map(columns, col => <option key={col.key} value={col.key}>{col.key} ({typeOf(col.fieldType)})</option>)}
+              </select>
+              <span>Value</span>
+              <textarea
+                value={text}
+                rows={3}
+                disabled={setNull || isRunning || !!result}
+                placeholder="Value as entered in a cell"
+                onInput={(e) => {
+                  setText((e.target as HTMLTextAreaElement).value);
+                  reset();
+                }}
+                style={{ ...inputStyle(theme), fontFamily: 'monospace', resize: 'vertical' }}
+              />
+              <span />
+              <label style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={setNull}
+                  disabled={isRunning || !!result}
+                  onChange={() => {
+                    setSetNull(!setNull);
+                    reset();
+                  }}
+                />
+                Set to null
+              </label>
+            </div>
+
+            {error && (
+              <div style={{ color: theme.colors.error }}>{error}</div>
+            )}
+
+            {dryRun && !result && !isRunning && (
+              <div style={{
+                padding: theme.spacing.md,
+                backgroundColor: theme.colors['primary-100'],
+                borderRadius: theme.borderRadius.md,
+              }}>
+                <div>
+                  {dryRun.count} matching {dryRun.count === 1 ? 'object' : 'objects'} will have <strong>{dryRun.field}</strong> set to:
+                </div>
+                <pre style={{
+                  margin: `${theme.spacing.xs}px 0 0`,
+                  maxHeight: '120px',
+                  overflow: 'auto',
+                  fontSize: theme.fontSize.xs,
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-all',
+                }}>
+                  {_.isNil(dryRun.value) ? 'null' : encodeValue(dryRun.value)}
+                </pre>
+              </div>
+            )}
+
+            {!_.isNil(processed) && dryRun && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+                <div style={{
+                  height: 8,
+                  borderRadius: theme.borderRadius.sm,
+                  backgroundColor: theme.colors['primary-100'],
+                  overflow: 'hidden',
+                }}>
+                  <div style={{
+                    width: `${progress * 100}%`,
+                    height: '100%',
+                    backgroundColor: theme.colors.primary,
+                    transition: 'width 0.2s ease',
+                  }} />
+                </div>
+                <div style={{ fontSize: theme.fontSize.xs, opacity: 0.7 }}>
+                  {processed} of {dryRun.count} processed
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.sm }}>
+                <div style={{ color: _.isEmpty(result.failures) ? theme.colors.success : theme.colors.error }}>
+                  {result.succeeded} {result.succeeded === 1 ? 'object' : 'objects'} updated
+                  {!_.isEmpty(result.failures) && `, ${result.failures.length} failed`}
+                  {result.cancelled && ' (cancelled)'}
+                </div>
+                {!_.isEmpty(result.failures) && (
+                  <div style={{
+                    maxHeight: '200px',
+                    overflow: 'auto',
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                  }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', margin: 0 }}>
+                      <thead>
+                        <tr>
+                          <th style={compactThStyle(theme)}>_id</th>
+                          <th style={compactThStyle(theme)}>Error</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {_.map(result.failures, (failure, idx) => (
+                          <tr key={`${failure.id}:${idx}`}>
+                            <td style={compactTdStyle(theme, idx)}>{failure.id || '-'}</td>
+                            <td style={{ ...compactTdStyle(theme, idx), color: theme.colors.error }}>{failure.error}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div style={{
+            padding: theme.spacing.lg,
+            borderTop: `1px solid ${theme.colors['primary-200']}`,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: theme.spacing.sm,
+          }}>
+            {result ? (
+              <Button
+                variant="solid"
+                color="primary"
+                size="sm"
+                onClick={() => onDone(result.succeeded)}
+              >
+                Close
+              </Button>
+            ) : isRunning ? (
+              <Button
+                variant="outline"
+                color="error"
+                size="sm"
+                onClick={() => controller.current?.abort()}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="sm"
+                  onClick={onCancel}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="sm"
+                  disabled={!column}
+                  onClick={handleDryRun}
+                >
+                  Dry run
+                </Button>
+                <Button
+                  variant="solid"
+                  color="error"
+                  size="sm"
+                  disabled={!dryRun || dryRun.count === 0}
+                  onClick={() => setConfirming(true)}
+                >
+                  Update {dryRun ? `${dryRun.count} ${dryRun.count === 1 ? 'object' : 'objects'}` : ''}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </Modal>
+      {confirming && dryRun && (
+        <DangerConfirmModal
+          title={`Update ${dryRun.count} objects`}
+          description={`You are about to set "${dryRun.field}" on all ${dryRun.count} objects of "${className}" matching the current filter. The previous values will be overwritten and are not recorded in the undo history.`}
+          onConfirm={handleRun}
+          onCancel={() => setConfirming(false)}
+        />
+      )}
+    </>
+  );
+};
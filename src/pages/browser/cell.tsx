@@ -24,9 +24,10 @@
 //
 
 import _ from 'lodash';
-import { useState, useRef } from 'frosty';
+import { useState, useRef, useEffect } from 'frosty';
 import { Decimal } from 'proto.io';
 import { TObject, TSchema, useProto } from '../../proto';
+import { typeOf } from '../../schema';
 import { useTheme } from '../../components/theme';
 import { normalizeColor, getRed, getGreen, getBlue, rgba, toHexString } from '@o2ter/colors.js';
 import { JSCode } from '../../components/jscode';
@@ -34,8 +35,9 @@ import { Modal } from '../../components/modal';
 import { Button } from '../../components/button';
 import { Icon } from '../../components/icon';
 import { useNavigate } from '../../components/router';
-import { typeOf, encodeValue, decodeValue, verifyValue } from './utils';
+import { encodeValue, decodeValue, verifyValue, parseVector } from './utils';
 import { Resize } from '../../components/resize';
+import { FormatRule, formatStyle } from './formatting';
 
 // Helper component: Switch for boolean values
 const Switch = ({ checked, onChange, disabled }: { checked: boolean; onChange: (value: boolean) => void; disabled?: boolean }) => {
@@ -75,18 +77,42 @@ const Switch = ({ checked, onChange, disabled }: { checked: boolean; onChange: (
   );
 };
 
+// Helper component: Sparkline for vector values
+const Sparkline = ({ values, color, width = 48, height = 14 }: { values: number[]; color: string; width?: number; height?: number }) => {
+  // Average into buckets so long vectors keep a readable shape
+  const buckets = _.map(_.chunk(values, Math.ceil(values.length / 64)), chunk => _.mean(chunk));
+  if (buckets.length < 2) return null;
+
+  const min = _.min(buckets)!;
+  const range = _.max(buckets)! - min || 1;
+  const points = _.map(buckets, (v, i) => `${(i / (buckets.length - 1)) * width},${height - ((v - min) / range) * height}`).join(' ');
+
+  return (
+    <svg width={width} height={height} style={{ flexShrink: 0 }}>
+      <polyline points={points} fill="none" stroke={color} strokeWidth="1" />
+    </svg>
+  );
+};
+
+export const vectorPreview = (vector: number[], count = 3) => {
+  const head = _.map(_.take(vector, count), v => `${_.round(v, 3)}`);
+  return `[${head.join(', ')}${vector.length > count ? ', …' : ''}]`;
+};
+
 type TableCellProps = {
   item?: TObject;
   column: string;
   schema: TSchema;
   className: string;
   isEditing: boolean;
+  isDirty?: boolean;
   editingValue?: any;
   setEditingValue?: (value: any) => void;
+  formatRules?: FormatRule[];
 };
 
 export const TableCell = ({
-  item, column, schema, className, isEditing, editingValue, setEditingValue,
+  item, column, schema, className, isEditing, isDirty, editingValue, setEditingValue, formatRules,
 }: TableCellProps) => {
   const theme = useTheme();
   const navigate = useNavigate();
@@ -113,6 +139,10 @@ export const TableCell = ({
 
   const proto = useProto();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [vectorText, setVectorText] = useState<string>();
+
+  // Forget the text of an unfinished vector edit
+  useEffect(() => { if (!isEditing) setVectorText(undefined); }, [isEditing]);
 
   const value = item?.get(column);
 
@@ -148,6 +178,8 @@ export const TableCell = ({
       case 'pointer':
       case 'relation':
         return 'rebeccapurple';
+      case 'vector':
+        return 'teal';
       default:
         return 'gray';
     }
@@ -159,6 +191,13 @@ export const TableCell = ({
     whiteSpace: 'nowrap',
     color: getTypeColor(),
     fontFamily: type === 'string' ? 'inherit' : 'monospace',
+    // Conditional formatting never applies to hidden values
+    ...isSecure ? {} : formatStyle(formatRules ?? [], value, theme),
+    // Highlight staged changes that are not saved yet
+    ...isDirty ? {
+      backgroundColor: theme.colors['warning-100'],
+      boxShadow: `inset 3px 0 0 ${theme.colors.warning}`,
+    } : {},
   } as const;
 
   // Editing mode
@@ -277,6 +316,51 @@ export const TableCell = ({
             </Button>
           </div>
         );
+      case 'vector':
+        const dimension = field && !_.isString(field) && field.type === 'vector' ? field.dimension : undefined;
+        const currentVector = editingValue ?? value;
+        const text = vectorText ?? (_.isArray(currentVector) ? currentVector.join(', ') : '');
+        let vectorError: string | undefined;
+        if (!_.isNil(vectorText)) {
+          try {
+            parseVector(vectorText, dimension);
+          } catch (error) {
+            vectorError = error instanceof Error ? error.message : 'Invalid vector';
+          }
+        }
+
+        return (
+          <div style={{ ...inputStyle, display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+            <input
+              type="text"
+              style={{
+                border: 'none',
+                outline: 'none',
+                backgroundColor: 'transparent',
+                fontFamily: 'monospace',
+              }}
+              value={text}
+              placeholder={`${dimension ?? ''} comma separated numbers`}
+              onInput={(e) => {
+                const input = e.currentTarget.value;
+                setVectorText(input);
+                try {
+                  setEditingValue?.(parseVector(input, dimension));
+                } catch {
+                  // Keep the stored value until the input is a valid vector
+                  setEditingValue?.(value);
+                }
+              }}
+              autofocus
+            />
+            <span style={{
+              fontSize: theme.fontSize.xs,
+              color: vectorError ? theme.colors.error : 'gray',
+            }}>
+              {vectorError ?? `${dimension} dimensions`}
+            </span>
+          </div>
+        );
       case 'pointer':
         return (
           <div style={{ ...inputStyle, display: 'flex', gap: theme.spacing.xs, alignItems: 'center' }}>
@@ -400,6 +484,25 @@ export const TableCell = ({
         return <div style={cellStyle}>{value ? 'true' : 'false'}</div>;
       case 'date':
         return <div style={cellStyle}>{value.toLocaleString()}</div>;
+      case 'vector':
+        return (
+          <div style={{ ...cellStyle, display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+            <span style={{
+              flexShrink: 0,
+              padding: `0 ${theme.spacing.xs}px`,
+              borderRadius: theme.borderRadius.sm,
+              backgroundColor: theme.colors['info-100'],
+              color: theme.colors.info,
+              fontSize: theme.fontSize.xs,
+            }}>
+              {value.length}d
+            </span>
+            <Sparkline values={value} color={getTypeColor()} />
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {vectorPreview(value)}
+            </span>
+          </div>
+        );
       case 'file':
         return (
           <div style={{ ...cellStyle, display: 'flex', alignItems: 'center', gap: theme.spacing.sm }}>
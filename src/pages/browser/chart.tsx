@@ -0,0 +1,568 @@
+//
+//  chart.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useResource, useState } from 'frosty';
+import { useLocalStorage } from 'frosty/web';
+import { Decimal } from 'proto.io';
+import { TQuery, TSchema, useProto, useProtoSchema } from '../../proto';
+import { expandColumns, typeOf, quickSearchFilter } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { Spinner } from '../../components/spinner';
+import { Chart, ChartDatum, ChartKind } from '../../components/chart';
+import { useNavigate } from '../../components/router';
+import { countMatches, encodeValue, fieldBounds, mapConcurrent, sampleValues } from './utils';
+import { decodeFiltersFromURLParams } from './filter';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+type DateBucket = 'day' | 'week' | 'month' | 'year';
+
+export type ChartSpec = {
+  kind: ChartKind;
+  field: string;
+  bucket: DateBucket;
+  bins: number;
+  limit: number;
+};
+
+// Chart pinned to the dashboard, the query is kept as browser search params
+export type PinnedChart = ChartSpec & {
+  id: string;
+  className: string;
+  params: string;
+};
+
+const PINNED_CHARTS_KEY = 'divermeter:charts';
+
+const chartKinds: ChartKind[] = ['bar', 'line', 'pie', 'histogram'];
+const dateBuckets: DateBucket[] = ['day', 'week', 'month', 'year'];
+
+const chartableColumns = (columns: Column[]) => _.filter(columns, col => _.includes(['date', 'number', 'decimal', 'string', 'boolean', 'pointer'], typeOf(col.fieldType)));
+
+const defaultKindFor = (fieldType?: TSchema['fields'][string]) => {
+  switch (typeOf(fieldType)) {
+    case 'date': return 'line';
+    case 'number':
+    case 'decimal': return 'histogram';
+    default: return 'bar';
+  }
+};
+
+export const chartTitle = (spec: ChartSpec, fieldType?: TSchema['fields'][string]) => {
+  switch (typeOf(fieldType)) {
+    case 'date': return `Objects per ${spec.bucket} by ${spec.field}`;
+    case 'number':
+    case 'decimal': return `Distribution of ${spec.field}`;
+    default: return `Top ${spec.limit} values of ${spec.field}`;
+  }
+};
+
+// Most recent date buckets shown, older buckets are left out
+const MAX_DATE_BUCKETS = 120;
+
+// Count queries of one chart running at the same time
+const MAX_CONCURRENT_COUNTS = 6;
+
+// Objects read to find the most frequent values of a field
+const TOP_VALUES_SAMPLE = 5000;
+
+const bucketStart = (date: Date, bucket: DateBucket) => {
+  switch (bucket) {
+    case 'day': return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    case 'month': return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    case 'year': return new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+    case 'week':
+      // Weeks start on Monday
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - (date.getUTCDay() + 6) % 7));
+  }
+};
+
+const bucketEnd = (start: Date, bucket: DateBucket) => {
+  switch (bucket) {
+    case 'day': return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1));
+    case 'week': return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 7));
+    case 'month': return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    case 'year': return new Date(Date.UTC(start.getUTCFullYear() + 1, 0, 1));
+  }
+};
+
+const bucketLabel = (start: Date, bucket: DateBucket) => {
+  const iso = start.toISOString();
+  switch (bucket) {
+    case 'month': return iso.slice(0, 7);
+    case 'year': return iso.slice(0, 4);
+    default: return iso.slice(0, 10);
+  }
+};
+
+const labelOf = (value: any) => {
+  if (_.isNil(value)) return '(null)';
+  if (_.isString(value)) return value;
+  if (_.isFunction(value?.fetch)) return value.id;
+  return encodeValue(value, 0);
+};
+
+const dateChart = async (query: TQuery, spec: ChartSpec, signal?: AbortSignal) => {
+  const bounds = await fieldBounds(query, spec.field, signal);
+  if (!bounds || !_.isDate(bounds[0]) || !_.isDate(bounds[1])) return [];
+  const [min, max] = bounds;
+
+  // Walk back from the latest bucket so empty buckets in between are kept
+  const starts: Date[] = [];
+  for (let start = bucketStart(max, spec.bucket); start >= bucketStart(min, spec.bucket); start = bucketStart(new Date(start.getTime() - 1), spec.bucket)) {
+    starts.unshift(start);
+    if (starts.length >= MAX_DATE_BUCKETS) break;
+  }
+
+  return mapConcurrent(starts, MAX_CONCURRENT_COUNTS, async start => ({
+    label: bucketLabel(start, spec.bucket),
+    value: await countMatches(query, { [spec.field]: { $gte: start, $lt: bucketEnd(start, spec.bucket) } }, signal),
+  }));
+};
+
+const numberChart = async (query: TQuery, spec: ChartSpec, isDecimal: boolean, signal?: AbortSignal) => {
+  const bounds = await fieldBounds(query, spec.field, signal);
+  if (!bounds) return [];
+  const [min, max] = _.map(bounds, v => v instanceof Decimal ? v.toNumber() : v);
+  if (!_.isFinite(min) || !_.isFinite(max)) return [];
+
+  const bins = Math.max(1, spec.bins);
+  const width = (max - min) / bins || 1;
+  const bound = (v: number) => isDecimal ? new Decimal(v) : v;
+  // Each edge is computed from the minimum so rounding does not add up, the last one is the maximum
+  const edge = (idx: number) => idx >= bins ? max : Math.min(max, min + idx * width);
+
+  return mapConcurrent(_.range(bins), MAX_CONCURRENT_COUNTS, async idx => {
+    const range = idx === bins - 1 ? { $gte: bound(edge(idx)), $lte: bound(max) } : { $gte: bound(edge(idx)), $lt: bound(edge(idx + 1)) };
+    return {
+      label: `${_.round(edge(idx), 2)}`,
+      value: await countMatches(query, { [spec.field]: range }, signal),
+    };
+  });
+};
+
+const topValuesChart = async (query: TQuery, spec: ChartSpec, signal?: AbortSignal) => {
+  const { values, complete } = await sampleValues(query, spec.field, TOP_VALUES_SAMPLE, signal);
+  const groups = _.groupBy(values, labelOf);
+  const candidates = _.take(_.orderBy(_.keys(groups), label => groups[label].length, 'desc'), spec.limit);
+
+  // The sample covers everything, otherwise only use it to pick the candidates and count them exactly
+  const [total, counts] = complete ? [values.length, _.map(candidates, label => groups[label].length)] : await Promise.all([
+    query.count({ master: true, abortSignal: signal }),
+    mapConcurrent(candidates, MAX_CONCURRENT_COUNTS, label => countMatches(query, { [spec.field]: { $eq: groups[label][0] ?? null } }, signal)),
+  ]);
+
+  const top = _.orderBy(_.map(candidates, (label, idx) => ({ label, value: counts[idx] })), 'value', 'desc');
+  const others = total - _.sumBy(top, 'value');
+  return others > 0 ? [...top, { label: '(other)', value: others }] : top;
+};
+
+// Aggregate the values of the field on the server into chart data
+export const computeChart = async (
+  query: TQuery,
+  spec: ChartSpec,
+  fieldType: TSchema['fields'][string] | undefined,
+  signal?: AbortSignal,
+): Promise<ChartDatum[]> => {
+  switch (typeOf(fieldType)) {
+    case 'date': return dateChart(query, spec, signal);
+    case 'number': return numberChart(query, spec, false, signal);
+    case 'decimal': return numberChart(query, spec, true, signal);
+    default: return topValuesChart(query, spec, signal);
+  }
+};
+
+export const usePinnedCharts = () => {
+  const [value, setValue] = useLocalStorage(PINNED_CHARTS_KEY);
+
+  const charts = (() => {
+    try {
+      const parsed = value ? JSON.parse(value) : [];
+      return _.isArray(parsed) ? parsed as PinnedChart[] : [];
+    } catch {
+      return [];
+    }
+  })();
+
+  const pin = (chart: Omit<PinnedChart, 'id'>) => {
+    setValue(JSON.stringify([...charts, { ...chart, id: Date.now().toString(36) }]));
+  };
+
+  const unpin = (id: string) => {
+    setValue(JSON.stringify(_.filter(charts, c => c.id !== id)));
+  };
+
+  return { charts, pin, unpin };
+};
+
+const selectStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+const ChartBody = ({ data, kind, loading }: { data?: ChartDatum[]; kind: ChartKind; loading: boolean; }) => {
+  const theme = useTheme();
+  if (loading && !data) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', padding: theme.spacing.xl }}>
+        <Spinner color={theme.colors.primary} size={32} />
+      </div>
+    );
+  }
+  if (_.isEmpty(data)) {
+    return (
+      <div style={{
+        padding: theme.spacing.xl,
+        textAlign: 'center',
+        fontSize: theme.fontSize.sm,
+        color: theme.colorContrast('#ffffff'),
+        opacity: 0.6,
+      }}>
+        No data to chart
+      </div>
+    );
+  }
+  return <Chart kind={kind} data={data!} />;
+};
+
+type ChartModalProps = {
+  className: string;
+  query: TQuery;
+  columns: Column[];
+  // Search params of the current query, pinning is unavailable without them
+  params?: string;
+  onCancel: () => void;
+};
+
+export const ChartModal = ({ className, query, columns, params, onCancel }: ChartModalProps) => {
+  const theme = useTheme();
+  const { pin } = usePinnedCharts();
+  const chartable = chartableColumns(columns);
+  const initialField = _.find(chartable, col => col.key === '_created_at') ?? chartable[0];
+
+  const [spec, setSpec] = useState<ChartSpec>({
+    kind: defaultKindFor(initialField?.fieldType),
+    field: initialField?.key ?? '',
+    bucket: 'day',
+    bins: 10,
+    limit: 10,
+  });
+  const [pinned, setPinned] = useState(false);
+
+  const fieldType = _.find(chartable, col => col.key === spec.field)?.fieldType;
+  const type = typeOf(fieldType);
+
+  const { resource: data, loading, error } = useResource<ChartDatum[]>(async ({ abortSignal }) => {
+    if (!spec.field) return [];
+    return computeChart(query, spec, fieldType, abortSignal);
+  }, [query, spec.field, spec.bucket, spec.bins, spec.limit]);
+
+  const updateSpec = (update: Partial<ChartSpec>) => {
+    setSpec(prev => ({ ...prev, ...update }));
+    setPinned(false);
+  };
+
+  const handlePin = () => {
+    if (_.isNil(params)) return;
+    pin({ ...spec, className, params });
+    setPinned(true);
+  };
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '760px',
+        maxWidth: '90vw',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Chart - {className}
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          <div style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: theme.spacing.sm,
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+          }}>
+            <span>Field</span>
+            <select
+              value={spec.field}
+              onChange={(e) => {
+                const field = e.currentTarget.value;
+                updateSpec({ field, kind: defaultKindFor(_.find(chartable, col => col.key === field)?.fieldType) });
+              }}
+              style={selectStyle(theme)}
+            >
+              {_.map(chartable, col => <option key={col.key} value={col.key}>{col.key}</option>)}
+            </select>
+            <span>Chart</span>
+            <select
+              value={spec.kind}
+              onChange={(e) => updateSpec({ kind: e.currentTarget.value as ChartKind })}
+              style={selectStyle(theme)}
+            >
+              {_.map(chartKinds, kind => <option key={kind} value={kind}>{kind}</option>)}
+            </select>
+            {type === 'date' && (
+              <>
+                <span>Per</span>
+                <select
+                  value={spec.bucket}
+                  onChange={(e) => updateSpec({ bucket: e.currentTarget.value as DateBucket })}
+                  style={selectStyle(theme)}
+                >
+                  {_.map(dateBuckets, bucket => <option key={bucket} value={bucket}>{bucket}</option>)}
+                </select>
+              </>
+            )}
+            {(type === 'number' || type === 'decimal') && (
+              <>
+                <span>Bins</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={`${spec.bins}`}
+                  onChange={(e) => updateSpec({ bins: _.clamp(parseInt(e.currentTarget.value) || 1, 1, 100) })}
+                  style={{ ...selectStyle(theme), width: 64 }}
+                />
+              </>
+            )}
+            {type !== 'date' && type !== 'number' && type !== 'decimal' && (
+              <>
+                <span>Top</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={`${spec.limit}`}
+                  onChange={(e) => updateSpec({ limit: _.clamp(parseInt(e.currentTarget.value) || 1, 1, 50) })}
+                  style={{ ...selectStyle(theme), width: 64 }}
+                />
+              </>
+            )}
+          </div>
+
+          <div style={{
+            fontSize: theme.fontSize.md,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.colorContrast('#ffffff'),
+          }}>
+            {chartTitle(spec, fieldType)}
+          </div>
+
+          {error ? (
+            <div style={{ fontSize: theme.fontSize.sm, color: theme.colors.error }}>
+              {error instanceof Error ? error.message : 'Failed to load chart'}
+            </div>
+          ) : (
+            <ChartBody data={data} kind={spec.kind} loading={loading} />
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          {!_.isNil(params) && (
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              disabled={pinned || !spec.field}
+              onClick={handlePin}
+            >
+              {pinned ? 'Pinned to dashboard' : 'Pin to dashboard'}
+            </Button>
+          )}
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Close
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// Pinned chart results are reused for a while so revisiting the dashboard
+// does not rerun every aggregation
+const PINNED_CHART_TTL = 5 * 60 * 1000;
+const pinnedChartCache = new Map<string, { data: ChartDatum[]; time: number; }>();
+
+type PinnedChartCardProps = {
+  chart: PinnedChart;
+  onUnpin: () => void;
+};
+
+export const PinnedChartCard = ({ chart, onUnpin }: PinnedChartCardProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const schemas = useProtoSchema();
+  const navigate = useNavigate();
+  const schema = schemas[chart.className];
+  const fieldType = schema ? _.find(expandColumns(schema.fields), col => col.key === chart.field)?.fieldType : undefined;
+
+  const { resource: data, loading, error } = useResource<ChartDatum[]>(async ({ abortSignal }) => {
+    if (!schema) throw new Error(`Class ${chart.className} does not exist`);
+    const cached = pinnedChartCache.get(chart.id);
+    if (cached && Date.now() - cached.time < PINNED_CHART_TTL) return cached.data;
+    const params = new URLSearchParams(chart.params);
+    const searchFilter = quickSearchFilter(
+      expandColumns(schema.fields),
+      params.get('q') ?? '',
+      _.compact((params.get('qFields') ?? '').split(',')),
+    );
+    const filters = _.compact([...decodeFiltersFromURLParams(params, proto), searchFilter]);
+    const query = _.reduce(filters, (query, f) => query.filter(f), proto.Query(chart.className));
+    const data = await computeChart(query, chart, fieldType, abortSignal);
+    pinnedChartCache.set(chart.id, { data, time: Date.now() });
+    return data;
+  }, [proto, schema, chart.id]);
+
+  return (
+    <div style={{
+      backgroundColor: '#ffffff',
+      borderRadius: `${theme.borderRadius.lg}px`,
+      padding: `${theme.spacing.lg}px`,
+      border: `1px solid ${theme.colors['primary-200']}`,
+      boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+        marginBottom: `${theme.spacing.sm}px`,
+      }}>
+        <div
+          onClick={() => navigate(`/classes/${chart.className}${chart.params ? `?${chart.params}` : ''}`)}
+          style={{
+            flex: 1,
+            cursor: 'pointer',
+            fontSize: `${theme.fontSize.md}px`,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+            '&:hover': {
+              textDecoration: 'underline',
+            },
+          }}
+        >
+          {chart.className} - {chartTitle(chart, fieldType)}
+        </div>
+        <button
+          title="Unpin chart"
+          onClick={onUnpin}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            padding: theme.spacing.xs,
+            display: 'flex',
+            alignItems: 'center',
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.6,
+            '&:hover': {
+              opacity: 1,
+            },
+          }}
+        >
+          <Icon name="close" size="sm" />
+        </button>
+      </div>
+      {error ? (
+        <div style={{ fontSize: `${theme.fontSize.sm}px`, color: theme.colors.error }}>
+          {error instanceof Error ? error.message : 'Failed to load chart'}
+        </div>
+      ) : (
+        <ChartBody data={data} kind={chart.kind} loading={loading} />
+      )}
+    </div>
+  );
+};
@@ -23,6 +23,7 @@
 //  THE SOFTWARE.
 //
 
+import _ from 'lodash';
 import { useState } from 'frosty';
 import { TSchema } from '../../proto';
 import { useTheme } from '../../components/theme';
@@ -30,31 +31,52 @@ import { Button } from '../../components/button';
 import { Icon } from '../../components/icon';
 import { Modal } from '../../components/modal';
 
+// Columns pinned to the left or right edge of the table
+export type ColumnPin = 'left' | 'right';
+
+// Stable order with the left pinned columns first and the right pinned columns last
+export const orderPinnedColumns = <T,>(columns: T[], key: (column: T) => string, pins: Record<string, ColumnPin>) => {
+  return _.sortBy(columns, column => pins[key(column)] === 'left' ? 0 : pins[key(column)] === 'right' ? 2 : 1);
+};
+
 // Column Settings Modal Component
 type ColumnSettingsModalProps = {
   columns: Array<{ key: string; baseField: string; fieldType: TSchema['fields'][string] }>;
   columnOrder: string[];
   hiddenColumns: Set<string>;
-  onApply: (order: string[], hidden: Set<string>) => void;
+  columnPins: Record<string, ColumnPin>;
+  onApply: (order: string[], hidden: Set<string>, pins: Record<string, ColumnPin>) => void;
   onCancel: () => void;
 };
 
-export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApply, onCancel }: ColumnSettingsModalProps) => {
+export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, columnPins, onApply, onCancel }: ColumnSettingsModalProps) => {
   const theme = useTheme();
   // Initialize state from props - no useEffect needed, key prop resets component
   const initialOrder = columnOrder.length > 0 ? columnOrder : columns.map(col => col.key);
-  const [localOrder, setLocalOrder] = useState<string[]>(initialOrder);
+  const [localOrder, setLocalOrder] = useState<string[]>(orderPinnedColumns(initialOrder, key => key, columnPins));
   const [localHidden, setLocalHidden] = useState<Set<string>>(new Set(hiddenColumns));
+  const [localPins, setLocalPins] = useState<Record<string, ColumnPin>>({ ...columnPins });
+
+  // Columns only move within their pinned group
+  const canMove = (index: number, targetIndex: number) => {
+    return targetIndex >= 0 && targetIndex < localOrder.length && localPins[localOrder[index]] === localPins[localOrder[targetIndex]];
+  };
 
   const moveColumn = (index: number, direction: 'up' | 'down') => {
     const newOrder = [...localOrder];
     const targetIndex = direction === 'up' ? index - 1 : index + 1;
-    if (targetIndex >= 0 && targetIndex < newOrder.length) {
+    if (canMove(index, targetIndex)) {
       [newOrder[index], newOrder[targetIndex]] = [newOrder[targetIndex], newOrder[index]];
       setLocalOrder(newOrder);
     }
   };
 
+  const togglePin = (columnKey: string, pin: ColumnPin) => {
+    const newPins = localPins[columnKey] === pin ? _.omit(localPins, columnKey) : { ...localPins, [columnKey]: pin };
+    setLocalPins(newPins);
+    setLocalOrder(orderPinnedColumns(localOrder, key => key, newPins));
+  };
+
   const toggleVisibility = (columnKey: string) => {
     const newHidden = new Set(localHidden);
     if (newHidden.has(columnKey)) {
@@ -68,10 +90,11 @@ export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApp
   const resetToDefault = () => {
     setLocalOrder(columns.map(col => col.key));
     setLocalHidden(new Set());
+    setLocalPins({});
   };
 
   const handleApply = () => {
-    onApply(localOrder, localHidden);
+    onApply(localOrder, localHidden, localPins);
   };
 
   return (
@@ -133,7 +156,7 @@ export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApp
             opacity: 0.7,
             marginBottom: theme.spacing.md,
           }}>
-            Reorder columns or hide them from the table. Hidden columns can be shown again later.
+            Reorder columns, pin them to the left or right edge, or hide them from the table. Pinned columns stay visible while scrolling horizontally.
           </div>
 
           <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
@@ -142,6 +165,9 @@ export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApp
               if (!column) return null;
 
               const isHidden = localHidden.has(colKey);
+              const pin = localPins[colKey];
+              const canMoveUp = canMove(index, index - 1);
+              const canMoveDown = canMove(index, index + 1);
 
               return (
                 <div
@@ -178,24 +204,52 @@ export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApp
                     {column.key}
                   </div>
 
+                  {/* Pin buttons */}
+                  <div style={{ display: 'flex', gap: theme.spacing.xs }}>
+                    {_.map([['left', '⇤', 'Pin to left'], ['right', '⇥', 'Pin to right']] as const, ([side, label, title]) => (
+                      <button
+                        key={side}
+                        title={pin === side ? 'Unpin' : title}
+                        onClick={() => togglePin(colKey, side)}
+                        style={{
+                          background: pin === side ? theme.colors['primary-100'] : 'none',
+                          border: `1px solid ${pin === side ? theme.colors.primary : theme.colors['primary-300']}`,
+                          borderRadius: theme.borderRadius.sm,
+                          cursor: 'pointer',
+                          padding: theme.spacing.xs,
+                          display: 'flex',
+                          alignItems: 'center',
+                          color: pin === side ? theme.colors.primary : theme.colorContrast('#ffffff'),
+                          opacity: pin === side ? 1 : 0.7,
+                          '&:hover': {
+                            opacity: 1,
+                            backgroundColor: theme.colors['primary-100'],
+                          },
+                        }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
                   {/* Move buttons */}
                   <div style={{ display: 'flex', gap: theme.spacing.xs }}>
                     <button
                       onClick={() => moveColumn(index, 'up')}
-                      disabled={index === 0}
+                      disabled={!canMoveUp}
                       style={{
                         background: 'none',
                         border: `1px solid ${theme.colors['primary-300']}`,
                         borderRadius: theme.borderRadius.sm,
-                        cursor: index === 0 ? 'not-allowed' : 'pointer',
+                        cursor: canMoveUp ? 'pointer' : 'not-allowed',
                         padding: theme.spacing.xs,
                         display: 'flex',
                         alignItems: 'center',
                         color: theme.colorContrast('#ffffff'),
-                        opacity: index === 0 ? 0.3 : 0.7,
+                        opacity: canMoveUp ? 0.7 : 0.3,
                         '&:hover': {
-                          opacity: index === 0 ? 0.3 : 1,
-                          backgroundColor: index === 0 ? 'transparent' : theme.colors['primary-100'],
+                          opacity: canMoveUp ? 1 : 0.3,
+                          backgroundColor: canMoveUp ? theme.colors['primary-100'] : 'transparent',
                         },
                       }}
                     >
@@ -203,20 +257,20 @@ export const ColumnSettingsModal = ({ columns, columnOrder, hiddenColumns, onApp
                     </button>
                     <button
                       onClick={() => moveColumn(index, 'down')}
-                      disabled={index === localOrder.length - 1}
+                      disabled={!canMoveDown}
                       style={{
                         background: 'none',
                         border: `1px solid ${theme.colors['primary-300']}`,
                         borderRadius: theme.borderRadius.sm,
-                        cursor: index === localOrder.length - 1 ? 'not-allowed' : 'pointer',
+                        cursor: canMoveDown ? 'pointer' : 'not-allowed',
                         padding: theme.spacing.xs,
                         display: 'flex',
                         alignItems: 'center',
                         color: theme.colorContrast('#ffffff'),
-                        opacity: index === localOrder.length - 1 ? 0.3 : 0.7,
+                        opacity: canMoveDown ? 0.7 : 0.3,
                         '&:hover': {
-                          opacity: index === localOrder.length - 1 ? 0.3 : 1,
-                          backgroundColor: index === localOrder.length - 1 ? 'transparent' : theme.colors['primary-100'],
+                          opacity: canMoveDown ? 1 : 0.3,
+                          backgroundColor: canMoveDown ? theme.colors['primary-100'] : 'transparent',
                         },
                       }}
                     >
@@ -0,0 +1,285 @@
+//
+//  columnStats.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useResource } from 'frosty';
+import { QueryFilter, TQuery, TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Icon } from '../../components/icon';
+import { Spinner } from '../../components/spinner';
+import { countMatches, encodeValue, fieldBounds, sampleValues } from './utils';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+type ColumnStats = {
+  total: number;
+  nulls: number;
+  empties: number;
+  distinct: number;
+  top: { value: any; label: string; count: number }[];
+  min?: any;
+  max?: any;
+  avgLength?: number;
+  // Distinct values and average length come from a sample of the objects
+  sampled: boolean;
+};
+
+const TOP_VALUES_LIMIT = 5;
+
+// Objects read to estimate the distinct and most frequent values
+const STATS_SAMPLE = 5000;
+
+const isPointer = (value: any) => _.isFunction(value?.fetch) && !_.isNil(value?.id);
+
+const keyOf = (value: any) => {
+  if (_.isNil(value)) return 'null';
+  if (isPointer(value)) return `${value.className}#${value.id}`;
+  return encodeValue(value, 0);
+};
+
+const labelOf = (value: any) => {
+  if (_.isNil(value)) return '(null)';
+  if (_.isString(value)) return value === '' ? '(empty)' : value;
+  if (_.isDate(value)) return value.toLocaleString();
+  if (isPointer(value)) return value.id;
+  return encodeValue(value, 0);
+};
+
+// Filter matching one value of the column, pointers are matched by id
+const equalFilter = (column: Column, value: any): QueryFilter => isPointer(value)
+  ? { [`${column.key}._id`]: { $eq: value.id } }
+  : { [column.key]: { $eq: value ?? null } };
+
+const emptyFilter = (column: Column): QueryFilter | undefined => {
+  switch (typeOf(column.fieldType)) {
+    case 'string': return { [column.key]: { $eq: '' } };
+    case 'array':
+    case 'relation': return { [column.key]: { $empty: true } };
+    default: return;
+  }
+};
+
+const computeStats = async (query: TQuery, column: Column, signal?: AbortSignal): Promise<ColumnStats> => {
+  const type = typeOf(column.fieldType);
+  const empty = emptyFilter(column);
+
+  const [total, nulls, empties, bounds, sample] = await Promise.all([
+    query.count({ master: true, abortSignal: signal }),
+    countMatches(query, { [column.key]: { $eq: null } }, signal),
+    empty ? countMatches(query, empty, signal) : 0,
+    _.includes(['number', 'decimal', 'date'], type) ? fieldBounds(query, column.key, signal) : undefined,
+    sampleValues(query, column.key, STATS_SAMPLE, signal),
+  ]);
+
+  const counts = new Map<string, { value: any; count: number }>();
+  for (const value of sample.values) {
+    const key = keyOf(value);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  }
+  const candidates = _.take(_.orderBy([...counts.values()], 'count', 'desc'), TOP_VALUES_LIMIT);
+
+  // Counts in a partial sample only rank the values, the top ones are counted exactly
+  const top = sample.complete ? candidates : _.orderBy(await Promise.all(_.map(candidates, async ({ value }) => ({
+    value,
+    count: await countMatches(query, equalFilter(column, value), signal),
+  }))), 'count', 'desc');
+
+  const strings = _.filter(sample.values, _.isString);
+  return {
+    total,
+    nulls,
+    empties,
+    distinct: counts.size,
+    top: _.map(top, ({ value, count }) => ({ value, label: labelOf(value), count })),
+    min: bounds?.[0],
+    max: bounds?.[1],
+    avgLength: type === 'string' ? _.meanBy(strings, 'length') || 0 : undefined,
+    sampled: !sample.complete,
+  };
+};
+
+const percent = (value: number, total: number) => total > 0 ? `${_.round((value / total) * 100, 1)}%` : '0%';
+
+type ColumnStatsPopoverProps = {
+  query: TQuery;
+  column: Column;
+  // Viewport position of the header the popover is attached to
+  top: number;
+  left: number;
+  // Not available in relation mode, where filters are not applied
+  onFilter?: (filter: QueryFilter) => void;
+  onClose: () => void;
+};
+
+export const ColumnStatsPopover = ({ query, column, top, left, onFilter, onClose }: ColumnStatsPopoverProps) => {
+  const theme = useTheme();
+  const { resource: stats, loading, error } = useResource<ColumnStats>(
+    ({ abortSignal }) => computeStats(query, column, abortSignal),
+    [query, column.key],
+  );
+
+  const row = (label: string, value: string) => (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      gap: theme.spacing.md,
+      padding: `${theme.spacing.xs}px 0`,
+    }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      <span style={{ fontFamily: 'monospace' }}>{value}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <div
+        onClick={onClose}
+        style={{ position: 'fixed', inset: 0, zIndex: 100 }}
+      />
+      <div style={{
+        position: 'fixed',
+        top,
+        left,
+        width: '280px',
+        maxHeight: '60vh',
+        overflow: 'auto',
+        zIndex: 101,
+        padding: theme.spacing.md,
+        backgroundColor: '#ffffff',
+        border: `1px solid ${theme.colors['primary-200']}`,
+        borderRadius: theme.borderRadius.md,
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+        fontSize: theme.fontSize.sm,
+        color: theme.colorContrast('#ffffff'),
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: theme.spacing.sm,
+        }}>
+          <span style={{ fontWeight: theme.fontWeight.semibold, color: theme.colors.primary }}>
+            {column.key}
+          </span>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: 0,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+        {error ? (
+          <div style={{ color: theme.colors.error }}>
+            {error instanceof Error ? error.message : 'Failed to load statistics'}
+          </div>
+        ) : loading || !stats ? (
+          <div style={{ display: 'flex', justifyContent: 'center', padding: theme.spacing.md }}>
+            <Spinner color={theme.colors.primary} size={24} />
+          </div>
+        ) : (
+          <>
+            {row('Objects', `${stats.total}`)}
+            {row('Null', `${stats.nulls} (${percent(stats.nulls, stats.total)})`)}
+            {row('Empty', `${stats.empties} (${percent(stats.empties, stats.total)})`)}
+            {row('Distinct', stats.sampled ? `${stats.distinct}+` : `${stats.distinct}`)}
+            {!_.isNil(stats.min) && row('Min', labelOf(stats.min))}
+            {!_.isNil(stats.max) && row('Max', labelOf(stats.max))}
+            {!_.isNil(stats.avgLength) && row('Avg. length', `${_.round(stats.avgLength, 1)}`)}
+            {!_.isEmpty(stats.top) && (
+              <div style={{
+                marginTop: theme.spacing.sm,
+                paddingTop: theme.spacing.sm,
+                borderTop: `1px solid ${theme.colors['primary-200']}`,
+              }}>
+                <div style={{ fontWeight: theme.fontWeight.medium, marginBottom: theme.spacing.xs }}>
+                  Top values
+                </div>
+                {_.map(stats.top, ({ value, label, count }) => (
+                  <div
+                    key={label}
+                    title={onFilter ? 'Filter by this value' : undefined}
+                    onClick={() => onFilter?.(equalFilter(column, value))}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: theme.spacing.sm,
+                      padding: theme.spacing.xs,
+                      borderRadius: theme.borderRadius.sm,
+                      cursor: onFilter ? 'pointer' : 'default',
+                      '&:hover': onFilter ? {
+                        backgroundColor: theme.colors['primary-100'],
+                      } : {},
+                    }}
+                  >
+                    <span style={{
+                      flex: 1,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}>{label}</span>
+                    <span style={{ fontFamily: 'monospace', opacity: 0.7 }}>{count}</span>
+                    <div style={{
+                      width: '48px',
+                      height: '6px',
+                      borderRadius: theme.borderRadius.sm,
+                      backgroundColor: theme.colors['primary-100'],
+                      overflow: 'hidden',
+                    }}>
+                      <div style={{
+                        width: percent(count, stats.total),
+                        height: '100%',
+                        backgroundColor: theme.colors.primary,
+                      }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {stats.sampled && (
+              <div style={{ marginTop: theme.spacing.sm, fontSize: theme.fontSize.xs, opacity: 0.6 }}>
+                Distinct values and average length are estimated from the first {STATS_SAMPLE} objects.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,362 @@
+//
+//  deleteMatching.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useRef, useResource, useState } from 'frosty';
+import { TQuery, useProto, useProtoSchema } from '../../proto';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { Spinner } from '../../components/spinner';
+import { inboundRelations, referenceFilter } from '../object/references';
+import { DangerConfirmModal } from './dangerConfirm';
+import { BatchResult, errorMessage, runBatches } from './utils';
+import { compactTdStyle, compactThStyle } from './tableStyle';
+
+// Number of doomed objects listed before deleting
+const SAMPLE_LIMIT = 10;
+// Number of doomed objects checked for inbound references
+const REFERENCE_CHECK_LIMIT = 1000;
+const BATCH_SIZE = 100;
+
+type DeletePreview = {
+  count: number;
+  sample: { id: string; createdAt?: Date }[];
+  checked: number;
+  references: { className: string; path: string; relType: string; count: number }[];
+};
+
+type DeleteMatchingModalProps = {
+  className: string;
+  // Filtered query of the browser
+  query: TQuery;
+  onDone: (deleted: number) => void;
+  onCancel: () => void;
+};
+
+export const DeleteMatchingModal = ({ className, query, onDone, onCancel }: DeleteMatchingModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const schemas = useProtoSchema();
+
+  const [confirming, setConfirming] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [processed, setProcessed] = useState<number>();
+  const [result, setResult] = useState<BatchResult>();
+  const controller = useRef<AbortController>();
+
+  const { resource: preview, loading, error } = useResource<DeletePreview>(async () => {
+    const [count, objects] = await Promise.all([
+      query.count({ master: true }),
+      query.clone().includes('_id', '_created_at').limit(REFERENCE_CHECK_LIMIT).find({ master: true }),
+    ]);
+    const ids = _.compact(_.map(objects, obj => obj.id));
+    const references = _.isEmpty(ids) ? [] : await Promise.all(_.map(inboundRelations(schemas, className), async (relation) => {
+      try {
+        const count = await proto.Query(relation.className).filter(referenceFilter(relation, ids)).count({ master: true });
+        return { className: relation.className, path: relation.path, relType: relation.relType, count };
+      } catch (error) {
+        console.error(`Failed to query references from ${relation.className}.${relation.path}:`, error);
+        return { className: relation.className, path: relation.path, relType: relation.relType, count: 0 };
+      }
+    }));
+    return {
+      count,
+      sample: _.map(_.take(objects, SAMPLE_LIMIT), obj => ({ id: obj.id!, createdAt: obj.createdAt })),
+      checked: ids.length,
+      references: _.filter(references, r => r.count > 0),
+    };
+  }, [proto, schemas, className, query]);
+
+  // Delete the matched objects by id
+  const handleRun = async () => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setConfirming(false);
+    setIsRunning(true);
+    setProcessed(0);
+    const summary = await runBatches(query, {
+      batch: async (ids) => (await proto.Query(className).filter({ _id: { $in: ids } }).deleteMany({ master: true })).length,
+      one: async (id) => { await proto.Query(className).filter({ _id: { $eq: id } }).deleteOne({ master: true }); },
+    }, { batchSize: BATCH_SIZE, signal: abort.signal, onProgress: setProcessed });
+    controller.current = undefined;
+    setIsRunning(false);
+    setResult(summary);
+  };
+
+  const count = preview?.count ?? 0;
+  const progress = count > 0 ? Math.min(1, (processed ?? 0) / count) : 0;
+
+  return (
+    <>
+      <Modal show={true}>
+        <div style={{
+          width: '640px',
+          maxWidth: '90vw',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: '#ffffff',
+          borderRadius: theme.borderRadius.lg,
+          boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+        }}>
+          {/* Header */}
+          <div style={{
+            padding: theme.spacing.lg,
+            borderBottom: `1px solid ${theme.colors['primary-200']}`,
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}>
+            <h3 style={{
+              margin: 0,
+              fontSize: theme.fontSize.lg,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.colors.error,
+            }}>
+              Delete All Matching - {className}
+            </h3>
+            <button
+              onClick={result ? () => onDone(result.succeeded) : onCancel}
+              disabled={isRunning}
+              style={{
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                padding: theme.spacing.xs,
+                display: 'flex',
+                alignItems: 'center',
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.6,
+                '&:hover': {
+                  opacity: 1,
+                },
+              }}
+            >
+              <Icon name="close" size="sm" />
+            </button>
+          </div>
+
+          {/* Body */}
+          <div style={{
+            flex: 1,
+            overflow: 'auto',
+            padding: theme.spacing.lg,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: theme.spacing.md,
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+          }}>
+            {error ? (
+              <div style={{ color: theme.colors.error }}>{errorMessage(error)}</div>
+            ) : loading || !preview ? (
+              <div style={{ display: 'flex', justifyContent: 'center', padding: theme.spacing.xl }}>
+                <Spinner color={theme.colors.primary} size={32} />
+              </div>
+            ) : (
+              <>
+                <div>
+                  {preview.count} {preview.count === 1 ? 'object matches' : 'objects match'} the current filter and will be permanently deleted.
+                </div>
+
+                {!_.isEmpty(preview.sample) && (
+                  <div style={{
+                    maxHeight: '200px',
+                    overflow: 'auto',
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                  }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', margin: 0 }}>
+                      <thead>
+                        <tr>
+                          <th style={compactThStyle(theme)}>_id</th>
+                          <th style={compactThStyle(theme)}>_created_at</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {_.map(preview.sample, (obj, idx) => (
+                          <tr key={obj.id}>
+                            <td style={compactTdStyle(theme, idx)}>{obj.id}</td>
+                            <td style={compactTdStyle(theme, idx)}>{obj.createdAt?.toLocaleString() ?? '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {preview.count > preview.sample.length && (
+                  <div style={{ fontSize: theme.fontSize.xs, opacity: 0.7 }}>
+                    and {preview.count - preview.sample.length} more
+                  </div>
+                )}
+
+                {!_.isEmpty(preview.references) && (
+                  <div style={{
+                    padding: theme.spacing.md,
+                    backgroundColor: theme.colors['warning-100'],
+                    border: `1px solid ${theme.colors['warning-300']}`,
+                    borderRadius: theme.borderRadius.md,
+                    display: 'flex',
+                    gap: theme.spacing.sm,
+                  }}>
+                    <div style={{ color: theme.colors['warning-700'], display: 'flex' }}>
+                      <Icon name="warning" size="sm" />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontWeight: theme.fontWeight.medium, marginBottom: theme.spacing.xs }}>
+                        Objects in other classes reference the objects to delete
+                        {preview.checked < preview.count && ` (checked the first ${preview.checked})`}
+                      </div>
+                      {_.map(preview.references, ref => (
+                        <div key={`${ref.className}.${ref.path}`} style={{ fontFamily: 'monospace', fontSize: theme.fontSize.xs }}>
+                          {ref.className}.{ref.path} ({ref.relType}): {ref.count} {ref.count === 1 ? 'object' : 'objects'}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {!_.isNil(processed) && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+                <div style={{
+                  height: 8,
+                  borderRadius: theme.borderRadius.sm,
+                  backgroundColor: theme.colors['primary-100'],
+                  overflow: 'hidden',
+                }}>
+                  <div style={{
+                    width: `${progress * 100}%`,
+                    height: '100%',
+                    backgroundColor: theme.colors.error,
+                    transition: 'width 0.2s ease',
+                  }} />
+                </div>
+                <div style={{ fontSize: theme.fontSize.xs, opacity: 0.7 }}>
+                  {processed} of {count} processed
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.sm }}>
+                <div style={{ color: _.isEmpty(result.failures) ? theme.colors.success : theme.colors.error }}>
+                  {result.succeeded} {result.succeeded === 1 ? 'object' : 'objects'} deleted
+                  {!_.isEmpty(result.failures) && `, ${result.failures.length} failed`}
+                  {result.cancelled && ' (cancelled)'}
+                </div>
+                {!_.isEmpty(result.failures) && (
+                  <div style={{
+                    maxHeight: '200px',
+                    overflow: 'auto',
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                  }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', margin: 0 }}>
+                      <thead>
+                        <tr>
+                          <th style={compactThStyle(theme)}>_id</th>
+                          <th style={compactThStyle(theme)}>Error</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {_.map(result.failures, (failure, idx) => (
+                          <tr key={`${failure.id}:${idx}`}>
+                            <td style={compactTdStyle(theme, idx)}>{failure.id || '-'}</td>
+                            <td style={{ ...compactTdStyle(theme, idx), color: theme.colors.error }}>{failure.error}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div style={{
+            padding: theme.spacing.lg,
+            borderTop: `1px solid ${theme.colors['primary-200']}`,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: theme.spacing.sm,
+          }}>
+            {result ? (
+              <Button
+                variant="solid"
+                color="primary"
+                size="sm"
+                onClick={() => onDone(result.succeeded)}
+              >
+                Close
+              </Button>
+            ) : isRunning ? (
+              <Button
+                variant="outline"
+                color="error"
+                size="sm"
+                onClick={() => controller.current?.abort()}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="sm"
+                  onClick={onCancel}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="solid"
+                  color="error"
+                  size="sm"
+                  disabled={!preview || preview.count === 0}
+                  onClick={() => setConfirming(true)}
+                >
+                  Delete {count} {count === 1 ? 'object' : 'objects'}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </Modal>
+      {confirming && (
+        <DangerConfirmModal
+          title={`Delete ${count} objects`}
+          description={`You are about to permanently delete all ${count} objects of "${className}" matching the current filter. Deleted objects are not recorded in the undo history.`}
+          onConfirm={handleRun}
+          onCancel={() => setConfirming(false)}
+        />
+      )}
+    </>
+  );
+};
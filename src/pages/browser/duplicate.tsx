@@ -0,0 +1,296 @@
+//
+//  duplicate.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useState } from 'frosty';
+import { TObject, TSchema, useProto } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { decodeRawValue, readonlyKeysForSchema } from './utils';
+
+const MAX_COPIES = 100;
+
+export type DuplicateOptions = {
+  copies: number;
+  copyRelations: boolean;
+  files: 'reupload' | 'reference';
+  // Decoded values replacing the copied ones
+  overrides: Record<string, any>;
+};
+
+// Top level fields copied into a duplicate
+export const duplicableFields = (schema: TSchema) => {
+  const readonlyKeys = readonlyKeysForSchema(schema);
+  return _.filter(_.keys(schema.fields), key => !_.includes(readonlyKeys, key));
+};
+
+// Create unsaved copies of the objects, files are copied again unless they are re-referenced
+export const duplicateObjects = async (
+  proto: ReturnType<typeof useProto>,
+  className: string,
+  schema: TSchema,
+  objects: TObject[],
+  options: DuplicateOptions,
+) => {
+  const result: { saved: TObject; keys: string[] }[] = [];
+  for (const original of objects) {
+    const values: Record<string, any> = {};
+    for (const key of duplicableFields(schema)) {
+      const fieldType = schema.fields[key];
+      if (_.has(options.overrides, key)) {
+        values[key] = options.overrides[key];
+      } else if (typeOf(fieldType) === 'relation') {
+        if (options.copyRelations && original.id) {
+          values[key] = await proto.Relation(original, key).find({ master: true });
+        }
+      } else {
+        values[key] = original.get(key);
+      }
+    }
+    for (let i = 0; i < options.copies; i++) {
+      const saved = proto.Object(className);
+      for (const [key, value] of _.entries(values)) {
+        if (_.isNil(value)) continue;
+        if (typeOf(schema.fields[key]) === 'file' && options.files === 'reupload' && !_.has(options.overrides, key)) {
+          // Uploaded when the copy is saved, so staged copies are not uploaded until committed
+          saved.set(key, proto.File(value.filename ?? 'file', value.fileData({ master: true }), value.type));
+        } else {
+          saved.set(key, value);
+        }
+      }
+      result.push({ saved, keys: _.keys(_.omitBy(values, _.isNil)) });
+    }
+  }
+  return result;
+};
+
+const inputStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type DuplicateModalProps = {
+  className: string;
+  schema: TSchema;
+  objects: TObject[];
+  onApply: (options: DuplicateOptions) => void;
+  onCancel: () => void;
+};
+
+export const DuplicateModal = ({ className, schema, objects, onApply, onCancel }: DuplicateModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const fields = duplicableFields(schema);
+  const hasRelations = _.some(fields, key => typeOf(schema.fields[key]) === 'relation');
+  const hasFiles = _.some(fields, key => typeOf(schema.fields[key]) === 'file');
+
+  const [copies, setCopies] = useState(1);
+  const [copyRelations, setCopyRelations] = useState(false);
+  const [files, setFiles] = useState<DuplicateOptions['files']>('reference');
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string>();
+
+  const handleApply = async () => {
+    setError(undefined);
+    const decoded: Record<string, any> = {};
+    for (const [key, text] of _.entries(overrides)) {
+      if (_.isEmpty(text)) continue;
+      try {
+        const value = await decodeRawValue(proto, schema.fields[key], text);
+        if (_.isUndefined(value)) throw new Error(`Invalid value for ${typeOf(schema.fields[key])} field`);
+        decoded[key] = value;
+      } catch (error) {
+        setError(`${key}: ${error instanceof Error ? error.message : 'Invalid value'}`);
+        return;
+      }
+    }
+    onApply({ copies, copyRelations, files, overrides: decoded });
+  };
+
+  const total = copies * objects.length;
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '600px',
+        maxWidth: '90vw',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Duplicate {objects.length} {objects.length === 1 ? 'Object' : 'Objects'} - {className}
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+          fontSize: theme.fontSize.sm,
+          color: theme.colorContrast('#ffffff'),
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.sm }}>
+            <span>Copies of each object</span>
+            <input
+              type="number"
+              min="1"
+              max={`${MAX_COPIES}`}
+              value={`${copies}`}
+              onChange={(e) => setCopies(_.clamp(parseInt(e.currentTarget.value) || 1, 1, MAX_COPIES))}
+              style={{ ...inputStyle(theme), width: 72 }}
+            />
+          </div>
+
+          {hasRelations && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.sm, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={copyRelations}
+                onChange={() => setCopyRelations(!copyRelations)}
+              />
+              Copy relation memberships
+            </label>
+          )}
+
+          {hasFiles && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.sm }}>
+              <span>Files</span>
+              <select
+                value={files}
+                onChange={(e) => setFiles(e.currentTarget.value as DuplicateOptions['files'])}
+                style={inputStyle(theme)}
+              >
+                <option value="reference">Reference the same files</option>
+                <option value="reupload">Upload a copy of each file</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <div style={{ fontWeight: theme.fontWeight.medium, marginBottom: theme.spacing.xs }}>
+              Override fields
+            </div>
+            <div style={{ fontSize: theme.fontSize.xs, opacity: 0.7, marginBottom: theme.spacing.sm }}>
+              Leave a field empty to keep the copied value. Readonly and secure fields are never copied.
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', alignItems: 'center', gap: theme.spacing.sm }}>
+              {_.flatMap(fields, key => [
+                <span key={`${key}:label`} style={{ fontFamily: 'monospace' }}>
+                  {key} <span style={{ opacity: 0.5 }}>({typeOf(schema.fields[key])})</span>
+                </span>,
+                <input
+                  key={`${key}:input`}
+                  type="text"
+                  value={overrides[key] ?? ''}
+                  onInput={(e) => {
+                    const value = (e.target as HTMLInputElement).value;
+                    setOverrides(prev => ({ ...prev, [key]: value }));
+                  }}
+                  style={inputStyle(theme)}
+                />,
+              ])}
+            </div>
+          </div>
+
+          {error && (
+            <div style={{ color: theme.colors.error }}>{error}</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            onClick={handleApply}
+          >
+            Create {total} {total === 1 ? 'copy' : 'copies'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
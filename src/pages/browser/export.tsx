@@ -0,0 +1,309 @@
+//
+//  export.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { csvFormatRows } from 'd3-dsv';
+import { useRef, useState } from 'frosty';
+import { useDocument } from 'frosty/web';
+import { Decimal } from 'proto.io';
+import { TQuery, TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { encodeValue, fetchBatches } from './utils';
+
+type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+const formats: Array<{ format: ExportFormat; label: string; mimeType: string; }> = [
+  { format: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', mimeType: 'application/json' },
+  { format: 'ndjson', label: 'NDJSON', mimeType: 'application/x-ndjson' },
+];
+
+// Encode a value as a CSV cell, using the same text forms accepted when pasting
+const encodeCSVValue = (value: any, type?: string): string => {
+  if (_.isNil(value)) return '';
+  switch (type) {
+    case 'file': return value.filename ?? '';
+    case 'pointer': return value.id ?? '';
+    case 'relation': return JSON.stringify(_.compact(_.map(value, v => v.id)));
+    case 'boolean':
+    case 'number':
+    case 'string': return `${value}`;
+    case 'decimal': return value.toString();
+    case 'date': return value.toISOString();
+    default: return encodeValue(value, 0);
+  }
+};
+
+// Encode a value for JSON output. Dates and decimals keep their lossless encoded form.
+const encodeJSONValue = (value: any, type?: string): any => {
+  if (_.isNil(value)) return null;
+  switch (type) {
+    case 'file': return value.filename ?? null;
+    case 'pointer': return value.id ?? null;
+    case 'relation': return _.compact(_.map(value, v => v.id));
+    default: return _.cloneDeepWith(value, v => _.isDate(v) || v instanceof Decimal ? encodeValue(v, 0) : undefined);
+  }
+};
+
+type ExportModalProps = {
+  className: string;
+  query: TQuery;
+  sort: Record<string, 1 | -1>;
+  count: number;
+  columns: Array<{ key: string; baseField: string; fieldType: TSchema['fields'][string] }>;
+  onCancel: () => void;
+};
+
+export const ExportModal = ({ className, query, sort, count, columns, onCancel }: ExportModalProps) => {
+  const theme = useTheme();
+  const doc = useDocument();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exported, setExported] = useState<number>();
+  const [error, setError] = useState<string>();
+  const [isExporting, setIsExporting] = useState(false);
+  const controller = useRef<AbortController>();
+
+  const download = (chunks: string[]) => {
+    const { mimeType } = _.find(formats, f => f.format === format)!;
+    const url = URL.createObjectURL(new Blob(chunks, { type: mimeType }));
+    const link = doc.createElement('a');
+    link.href = url;
+    link.download = `${className}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async () => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setIsExporting(true);
+    setExported(0);
+    setError(undefined);
+    try {
+      const chunks: string[] = [];
+      if (format === 'csv') chunks.push(csvFormatRows([_.map(columns, c => c.key)]) + '\n');
+      if (format === 'json') chunks.push('[\n');
+      let total = 0;
+      await fetchBatches(query, sort, (batch) => {
+        for (const obj of batch) {
+          switch (format) {
+            case 'csv':
+              chunks.push(csvFormatRows([_.map(columns, c => encodeCSVValue(obj.get(c.key), typeOf(c.fieldType)))]) + '\n');
+              break;
+            case 'json':
+            case 'ndjson':
+              {
+                const row = _.fromPairs(_.map(columns, c => [c.key, encodeJSONValue(obj.get(c.key), typeOf(c.fieldType))]));
+                const line = JSON.stringify(row);
+                chunks.push(format === 'json' ? `${total > 0 ? ',\n' : ''}  ${line}` : `${line}\n`);
+              }
+              break;
+          }
+          total++;
+        }
+        setExported(total);
+      }, { signal: abort.signal });
+      if (format === 'json') chunks.push('\n]\n');
+      download(chunks);
+      // Objects added or removed while exporting change the number of rows
+      if (total !== count) {
+        setError(`Exported ${total} of ${count} objects, the data changed while exporting`);
+      } else {
+        onCancel();
+      }
+    } catch (error) {
+      if (abort.signal.aborted) {
+        setExported(undefined);
+      } else {
+        console.error('Failed to export data:', error);
+        setError(error instanceof Error ? error.message : 'Failed to export data');
+      }
+    } finally {
+      controller.current = undefined;
+      setIsExporting(false);
+    }
+  };
+
+  const progress = count > 0 ? Math.min(1, (exported ?? 0) / count) : 0;
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '480px',
+        maxWidth: '90vw',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Export {className}
+          </h3>
+          <button
+            onClick={() => {
+              controller.current?.abort();
+              onCancel();
+            }}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          <div style={{
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.7,
+          }}>
+            Export {count} {count === 1 ? 'record' : 'records'} matching the current query with {columns.length} visible {columns.length === 1 ? 'column' : 'columns'}.
+            Pointers are exported as object ids and files as file names.
+          </div>
+
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            {formats.map(f => (
+              <Button
+                key={f.format}
+                variant={format === f.format ? 'solid' : 'outline'}
+                color="primary"
+                size="sm"
+                disabled={isExporting}
+                onClick={() => setFormat(f.format)}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+
+          {!_.isNil(exported) && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+              <div style={{
+                height: 8,
+                borderRadius: theme.borderRadius.sm,
+                backgroundColor: theme.colors['primary-100'],
+                overflow: 'hidden',
+              }}>
+                <div style={{
+                  width: `${progress * 100}%`,
+                  height: '100%',
+                  backgroundColor: theme.colors.primary,
+                  transition: 'width 0.2s ease',
+                }} />
+              </div>
+              <div style={{
+                fontSize: theme.fontSize.xs,
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.7,
+              }}>
+                {exported} of {count} exported
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div style={{
+              fontSize: theme.fontSize.sm,
+              color: theme.colors.error,
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={() => {
+              if (isExporting) {
+                controller.current?.abort();
+              } else {
+                onCancel();
+              }
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            disabled={isExporting}
+            onClick={handleExport}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+              <Icon name="download" size="sm" />
+              <span>Export</span>
+            </div>
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
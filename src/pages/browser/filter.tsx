@@ -26,13 +26,14 @@
 import _ from 'lodash';
 import { _useCallbacks, useMemo, useState, useEffect } from 'frosty';
 import { QueryFilter, TSchema, useProto } from '../../proto';
+import { _typeOf } from '../../schema';
 import { useTheme } from '../../components/theme';
 import { useAlert } from '../../components/alert';
 import { Button } from '../../components/button';
 import { Modal } from '../../components/modal';
 import { Icon } from '../../components/icon';
 import { Decimal, serialize, deserialize } from 'proto.io';
-import { _typeOf, encodeValue, decodeValue, verifyValue } from './utils';
+import { encodeValue, decodeValue, verifyValue } from './utils';
 import { JSCode } from '../../components/jscode';
 
 /**
@@ -0,0 +1,404 @@
+//
+//  findReplace.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useRef, useState } from 'frosty';
+import { TObject, TQuery, TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { fetchBatches } from './utils';
+import { compactTdStyle, compactThStyle } from './tableStyle';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+type ReplaceScope = 'selection' | 'page' | 'query';
+type ReplaceMode = 'text' | 'ignoreCase' | 'regex';
+
+export type ReplaceMatch = {
+  object: TObject;
+  key: string;
+  before: string | string[];
+  after: string | string[];
+};
+
+const PREVIEW_LIMIT = 200;
+
+// Columns holding text that can be searched and replaced
+export const replaceableColumns = (columns: Column[]) => _.filter(columns, col => _.includes(['string', 'string[]'], typeOf(col.fieldType)));
+
+const buildPattern = (find: string, mode: ReplaceMode) => {
+  switch (mode) {
+    case 'text': return new RegExp(_.escapeRegExp(find), 'g');
+    case 'ignoreCase': return new RegExp(_.escapeRegExp(find), 'gi');
+    case 'regex': return new RegExp(find, 'g');
+  }
+};
+
+const replaceValue = (value: any, pattern: RegExp, replacement: string, mode: ReplaceMode) => {
+  // Only regex mode expands $1 style references in the replacement
+  const replace = (text: string) => mode === 'regex' ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement);
+  if (_.isString(value)) {
+    const replaced = replace(value);
+    return replaced === value ? undefined : replaced;
+  }
+  if (_.isArray(value) && _.every(value, v => _.isString(v))) {
+    const replaced = _.map(value as string[], replace);
+    return _.isEqual(replaced, value) ? undefined : replaced;
+  }
+};
+
+const formatText = (value: string | string[]) => _.isArray(value) ? JSON.stringify(value) : value;
+
+const cellStyle = (theme: ReturnType<typeof useTheme>, idx: number) => ({
+  ...compactTdStyle(theme, idx),
+  maxWidth: '240px',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap' as const,
+});
+
+const inputStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type FindReplaceModalProps = {
+  className: string;
+  columns: Column[];
+  // Objects and columns of the selected cells
+  selection?: { objects: TObject[]; keys: string[]; };
+  pageObjects: TObject[];
+  query: TQuery;
+  onApply: (matches: ReplaceMatch[]) => void;
+  onCancel: () => void;
+};
+
+export const FindReplaceModal = ({ className, columns, selection, pageObjects, query, onApply, onCancel }: FindReplaceModalProps) => {
+  const theme = useTheme();
+  const replaceable = replaceableColumns(columns);
+  const selectedKeys = _.filter(selection?.keys, key => _.some(replaceable, col => col.key === key));
+  const hasSelection = !_.isEmpty(selection?.objects) && !_.isEmpty(selectedKeys);
+
+  const [scope, setScope] = useState<ReplaceScope>(hasSelection ? 'selection' : 'page');
+  const [field, setField] = useState(selectedKeys[0] ?? replaceable[0]?.key ?? '');
+  const [mode, setMode] = useState<ReplaceMode>('text');
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matches, setMatches] = useState<ReplaceMatch[]>();
+  const [scanned, setScanned] = useState<number>();
+  const [error, setError] = useState<string>();
+  const [isScanning, setIsScanning] = useState(false);
+  const controller = useRef<AbortController>();
+
+  const reset = () => {
+    controller.current?.abort();
+    setMatches(undefined);
+    setError(undefined);
+  };
+
+  const handlePreview = async () => {
+    let pattern: RegExp;
+    try {
+      pattern = buildPattern(find, mode);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid regular expression');
+      return;
+    }
+    const keys = scope === 'selection' ? selectedKeys : [field];
+    const collect = (objects: TObject[], result: ReplaceMatch[]) => {
+      for (const object of objects) {
+        for (const key of keys) {
+          const before = object.get(key);
+          const after = replaceValue(before, pattern, replacement, mode);
+          if (!_.isNil(after)) result.push({ object, key, before, after });
+        }
+      }
+    };
+
+    const abort = new AbortController();
+    controller.current = abort;
+    setError(undefined);
+    setIsScanning(true);
+    setScanned(0);
+    try {
+      const result: ReplaceMatch[] = [];
+      if (scope === 'query') {
+        let total = 0;
+        await fetchBatches(query, {}, (batch) => {
+          collect(batch, result);
+          total += batch.length;
+          setScanned(total);
+        }, { signal: abort.signal });
+      } else {
+        collect(scope === 'selection' ? selection?.objects ?? [] : pageObjects, result);
+      }
+      setMatches(result);
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error('Failed to find matches:', error);
+        setError(error instanceof Error ? error.message : 'Failed to find matches');
+      }
+    } finally {
+      controller.current = undefined;
+      setIsScanning(false);
+    }
+  };
+
+  const objectCount = _.uniqBy(matches, m => m.object).length;
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '760px',
+        maxWidth: '90vw',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Find and Replace - {className}
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+          fontSize: theme.fontSize.sm,
+          color: theme.colorContrast('#ffffff'),
+        }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', alignItems: 'center', gap: theme.spacing.sm }}>
+            <span>Find</span>
+            <input
+              type="text"
+              value={find}
+              onInput={(e) => {
+                setFind((e.target as HTMLInputElement).value);
+                reset();
+              }}
+              style={{ ...inputStyle(theme), fontFamily: mode === 'regex' ? 'monospace' : 'inherit' }}
+            />
+            <span>Replace with</span>
+            <input
+              type="text"
+              value={replacement}
+              onInput={(e) => {
+                setReplacement((e.target as HTMLInputElement).value);
+                reset();
+              }}
+              style={inputStyle(theme)}
+            />
+            <span>Match</span>
+            <select
+              value={mode}
+              onChange={(e) => {
+                setMode(e.currentTarget.value as ReplaceMode);
+                reset();
+              }}
+              style={inputStyle(theme)}
+            >
+              <option value="text">Plain text</option>
+              <option value="ignoreCase">Plain text, ignore case</option>
+              <option value="regex">Regular expression</option>
+            </select>
+            <span>In</span>
+            <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+              <select
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.currentTarget.value as ReplaceScope);
+                  reset();
+                }}
+                style={{ ...inputStyle(theme), flex: 1 }}
+              >
+                <option value="selection" disabled={!hasSelection}>Selected cells</option>
+                <option value="page">Column on this page</option>
+                <option value="query">Column in all matching objects</option>
+              </select>
+              {scope === 'selection' ? (
+                <span style={{ alignSelf: 'center', opacity: 0.7 }}>{selectedKeys.join(', ')}</span>
+              ) : (
+                <select
+                  value={field}
+                  onChange={(e) => {
+                    setField(e.currentTarget.value);
+                    reset();
+                  }}
+                  style={{ ...inputStyle(theme), flex: 1 }}
+                >
+                  {_.map(replaceable, col => <option key={col.key} value={col.key}>{col.key}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div style={{ color: theme.colors.error }}>{error}</div>
+          )}
+
+          {isScanning && scope === 'query' && (
+            <div style={{ opacity: 0.7 }}>Scanned {scanned ?? 0} objects...</div>
+          )}
+
+          {matches && (
+            _.isEmpty(matches) ? (
+              <div style={{ opacity: 0.7 }}>No matches found</div>
+            ) : (
+              <div>
+                <div style={{ marginBottom: theme.spacing.sm }}>
+                  {matches.length} {matches.length === 1 ? 'value' : 'values'} in {objectCount} {objectCount === 1 ? 'object' : 'objects'} will be changed
+                </div>
+                <div style={{
+                  maxHeight: '300px',
+                  overflow: 'auto',
+                  border: `1px solid ${theme.colors['primary-200']}`,
+                  borderRadius: theme.borderRadius.md,
+                }}>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', margin: 0 }}>
+                    <thead>
+                      <tr>
+                        <th style={compactThStyle(theme)}>_id</th>
+                        <th style={compactThStyle(theme)}>Field</th>
+                        <th style={compactThStyle(theme)}>Before</th>
+                        <th style={compactThStyle(theme)}>After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {_.map(_.take(matches, PREVIEW_LIMIT), (match, idx) => (
+                        <tr key={`${match.object.id}:${match.key}:${idx}`}>
+                          <td style={cellStyle(theme, idx)}>{match.object.id}</td>
+                          <td style={cellStyle(theme, idx)}>{match.key}</td>
+                          <td style={cellStyle(theme, idx)} title={formatText(match.before)}>{formatText(match.before)}</td>
+                          <td style={{ ...cellStyle(theme, idx), color: theme.colors.primary }} title={formatText(match.after)}>{formatText(match.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {matches.length > PREVIEW_LIMIT && (
+                  <div style={{ marginTop: theme.spacing.xs, opacity: 0.7 }}>
+                    and {matches.length - PREVIEW_LIMIT} more
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          {isScanning ? (
+            <Button
+              variant="outline"
+              color="error"
+              size="sm"
+              onClick={() => controller.current?.abort()}
+            >
+              Stop
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              disabled={_.isEmpty(find) || (scope !== 'selection' && !field)}
+              onClick={handlePreview}
+            >
+              Preview
+            </Button>
+          )}
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            disabled={_.isEmpty(matches) || isScanning}
+            onClick={() => matches && onApply(matches)}
+          >
+            Replace {objectCount > 0 ? `in ${objectCount} ${objectCount === 1 ? 'object' : 'objects'}` : ''}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
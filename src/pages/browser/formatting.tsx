@@ -0,0 +1,458 @@
+//
+//  formatting.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useMemo, useRef, useState } from 'frosty';
+import { useDocument, useLocalStorage } from 'frosty/web';
+import { Decimal } from 'proto.io';
+import { TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+
+export type FormatCondition = 'lt' | 'gt' | 'eq' | 'neq' | 'olderThan' | 'newerThan' | 'matches' | 'isTrue' | 'isFalse' | 'isEmpty' | 'notEmpty';
+export type FormatStyle = 'red' | 'green' | 'yellow' | 'blue' | 'faded' | 'bold';
+
+// Conditional formatting rule applied to the cells of a column
+export type FormatRule = {
+  field: string;
+  condition: FormatCondition;
+  // Number, days or pattern the cell value is compared with
+  value: string;
+  style: FormatStyle;
+};
+
+// Conditions offered for each field type, conditions without types apply to every field
+const conditions: Array<{ condition: FormatCondition; label: string; types?: string[]; placeholder?: string }> = [
+  { condition: 'lt', label: 'less than', types: ['number', 'decimal'], placeholder: '0' },
+  { condition: 'gt', label: 'greater than', types: ['number', 'decimal'], placeholder: '0' },
+  { condition: 'eq', label: 'equals', types: ['number', 'decimal', 'string'], placeholder: 'value' },
+  { condition: 'neq', label: 'not equals', types: ['number', 'decimal', 'string'], placeholder: 'value' },
+  { condition: 'olderThan', label: 'older than (days)', types: ['date'], placeholder: '30' },
+  { condition: 'newerThan', label: 'newer than (days)', types: ['date'], placeholder: '7' },
+  { condition: 'matches', label: 'matches pattern', types: ['string'], placeholder: '^[A-Z]' },
+  { condition: 'isTrue', label: 'is true', types: ['boolean'] },
+  { condition: 'isFalse', label: 'is false', types: ['boolean'] },
+  { condition: 'isEmpty', label: 'is empty' },
+  { condition: 'notEmpty', label: 'is not empty' },
+];
+
+const styles: Array<{ style: FormatStyle; label: string }> = [
+  { style: 'red', label: 'Red background' },
+  { style: 'green', label: 'Green background' },
+  { style: 'yellow', label: 'Yellow background' },
+  { style: 'blue', label: 'Blue background' },
+  { style: 'faded', label: 'Faded' },
+  { style: 'bold', label: 'Bold' },
+];
+
+const conditionsFor = (fieldType?: TSchema['fields'][string]) => {
+  const type = typeOf(fieldType);
+  return _.filter(conditions, c => !c.types || _.includes(c.types, type));
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const matchesRule = (rule: FormatRule, value: any) => {
+  const number = value instanceof Decimal ? value.toNumber() : value;
+  const target = parseFloat(rule.value);
+  switch (rule.condition) {
+    case 'lt': return _.isNumber(number) && number < target;
+    case 'gt': return _.isNumber(number) && number > target;
+    case 'eq': return _.isString(value) ? value === rule.value : _.isNumber(number) && number === target;
+    case 'neq': return _.isString(value) ? value !== rule.value : _.isNumber(number) && number !== target;
+    case 'olderThan': return _.isDate(value) && Date.now() - value.getTime() > target * DAY;
+    case 'newerThan': return _.isDate(value) && Date.now() - value.getTime() < target * DAY;
+    case 'matches':
+      try {
+        return _.isString(value) && new RegExp(rule.value).test(value);
+      } catch {
+        return false;
+      }
+    case 'isTrue': return value === true;
+    case 'isFalse': return value === false;
+    case 'isEmpty': return _.isNil(value) || value === '' || (_.isArray(value) && value.length === 0);
+    case 'notEmpty': return !_.isNil(value) && value !== '' && !(_.isArray(value) && value.length === 0);
+    default: return false;
+  }
+};
+
+// Style of a cell from the matching rules, later rules win
+export const formatStyle = (rules: FormatRule[], value: any, theme: ReturnType<typeof useTheme>) => {
+  const style: Record<string, any> = {};
+  for (const rule of rules) {
+    if (!matchesRule(rule, value)) continue;
+    switch (rule.style) {
+      case 'red': style.backgroundColor = theme.colors['error-100']; break;
+      case 'green': style.backgroundColor = theme.colors['success-100']; break;
+      case 'yellow': style.backgroundColor = theme.colors['warning-100']; break;
+      case 'blue': style.backgroundColor = theme.colors['info-100']; break;
+      case 'faded': style.opacity = 0.4; break;
+      case 'bold': style.fontWeight = 'bold'; break;
+    }
+  }
+  return style;
+};
+
+// Drop malformed rules from storage, saved views and imported files
+export const parseRules = (value: any): FormatRule[] => {
+  if (!_.isArray(value)) return [];
+  const valid = _.filter(value, r => _.isString(r?.field)
+    && _.some(conditions, c => c.condition === r.condition)
+    && _.some(styles, s => s.style === r.style));
+  return _.map(valid, r => ({
+    field: r.field,
+    condition: r.condition,
+    value: _.isNil(r.value) ? '' : `${r.value}`,
+    style: r.style,
+  }));
+};
+
+export const useFormatRules = (className: string) => {
+  const [value, setValue] = useLocalStorage(`divermeter:rules:${className}`);
+
+  const rules = useMemo(() => {
+    try {
+      return parseRules(value ? JSON.parse(value) : []);
+    } catch {
+      return [];
+    }
+  }, [value]);
+
+  const setRules = (rules: FormatRule[]) => setValue(JSON.stringify(rules));
+
+  return [rules, setRules] as const;
+};
+
+const inputStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type FormatRulesModalProps = {
+  className: string;
+  columns: Array<{ key: string; baseField: string; fieldType: TSchema['fields'][string] }>;
+  rules: FormatRule[];
+  onApply: (rules: FormatRule[]) => void;
+  onCancel: () => void;
+};
+
+export const FormatRulesModal = ({ className, columns, rules, onApply, onCancel }: FormatRulesModalProps) => {
+  const theme = useTheme();
+  const doc = useDocument();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [localRules, setLocalRules] = useState<FormatRule[]>(rules);
+  const [importError, setImportError] = useState<string>();
+
+  const fieldTypeOf = (key: string) => _.find(columns, col => col.key === key)?.fieldType;
+
+  const updateRule = (index: number, update: Partial<FormatRule>) => {
+    setLocalRules(_.map(localRules, (rule, i) => {
+      if (i !== index) return rule;
+      const next = { ...rule, ...update };
+      // Keep the condition valid for the type of a newly selected field
+      const available = conditionsFor(fieldTypeOf(next.field));
+      return _.some(available, c => c.condition === next.condition) ? next : { ...next, condition: available[0].condition };
+    }));
+  };
+
+  const addRule = () => {
+    const field = columns[0]?.key ?? '';
+    setLocalRules([...localRules, { field, condition: conditionsFor(fieldTypeOf(field))[0].condition, value: '', style: 'red' }]);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(localRules, null, 2)], { type: 'application/json' }));
+    const link = doc.createElement('a');
+    link.href = url;
+    link.download = `${className}.rules.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!_.isArray(parsed)) throw Error('Expected an array of rules');
+      setLocalRules(parseRules(parsed));
+      setImportError(undefined);
+    } catch (error) {
+      console.error('Failed to import rules:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import rules');
+    }
+  };
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '760px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Conditional Formatting
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+        }}>
+          <div style={{
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.7,
+            marginBottom: theme.spacing.md,
+          }}>
+            Cells matching a rule are highlighted in the table of {className}. When several rules match a cell, later rules win.
+          </div>
+
+          {localRules.length === 0 && (
+            <div style={{
+              padding: theme.spacing.md,
+              textAlign: 'center',
+              fontSize: theme.fontSize.sm,
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.5,
+            }}>
+              No rules
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+            {_.map(localRules, (rule, index) => {
+              const available = conditionsFor(fieldTypeOf(rule.field));
+              const condition = _.find(available, c => c.condition === rule.condition);
+              return (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: theme.spacing.sm,
+                    padding: theme.spacing.sm,
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                  }}
+                >
+                  <select
+                    value={rule.field}
+                    onChange={(e) => updateRule(index, { field: e.currentTarget.value })}
+                    style={{ ...inputStyle(theme), flex: 1, minWidth: 0 }}
+                  >
+                    {!fieldTypeOf(rule.field) && <option value={rule.field}>{rule.field}</option>}
+                    {_.map(columns, col => (
+                      <option key={col.key} value={col.key}>{col.key}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.condition}
+                    onChange={(e) => updateRule(index, { condition: e.currentTarget.value as FormatCondition })}
+                    style={inputStyle(theme)}
+                  >
+                    {_.map(available, c => (
+                      <option key={c.condition} value={c.condition}>{c.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.value}
+                    placeholder={condition?.placeholder}
+                    disabled={!condition?.placeholder}
+                    onInput={(e) => updateRule(index, { value: e.currentTarget.value })}
+                    style={{ ...inputStyle(theme), width: 120, opacity: condition?.placeholder ? 1 : 0.4 }}
+                  />
+                  <select
+                    value={rule.style}
+                    onChange={(e) => updateRule(index, { style: e.currentTarget.value as FormatStyle })}
+                    style={inputStyle(theme)}
+                  >
+                    {_.map(styles, s => (
+                      <option key={s.style} value={s.style}>{s.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    title="Remove"
+                    onClick={() => setLocalRules(_.filter(localRules, (_r, i) => i !== index))}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      padding: theme.spacing.xs,
+                      display: 'flex',
+                      alignItems: 'center',
+                      color: theme.colors.error,
+                      opacity: 0.6,
+                      '&:hover': {
+                        opacity: 1,
+                      },
+                    }}
+                  >
+                    <Icon name="trash" size="sm" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ marginTop: theme.spacing.md }}>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              disabled={columns.length === 0}
+              onClick={addRule}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="plus" size="sm" />
+                <span>Add Rule</span>
+              </div>
+            </Button>
+          </div>
+
+          {importError && (
+            <div style={{
+              marginTop: theme.spacing.md,
+              padding: theme.spacing.sm,
+              fontSize: theme.fontSize.sm,
+              color: theme.colors.error,
+              backgroundColor: theme.colors['error-100'],
+              borderRadius: theme.borderRadius.md,
+            }}>
+              {importError}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: theme.spacing.sm,
+        }}>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                if (file) handleImport(file);
+                e.currentTarget.value = '';
+              }}
+            />
+            <Button
+              variant="ghost"
+              color="primary"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="upload" size="sm" />
+                <span>Import</span>
+              </div>
+            </Button>
+            <Button
+              variant="ghost"
+              color="primary"
+              size="sm"
+              disabled={localRules.length === 0}
+              onClick={handleExport}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="download" size="sm" />
+                <span>Export</span>
+              </div>
+            </Button>
+          </div>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="solid"
+              color="primary"
+              size="sm"
+              onClick={() => onApply(localRules)}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,185 @@
+//
+//  history.ts
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { ProtoClient } from 'proto.io';
+import { useState } from 'frosty';
+import { TObject } from '../../proto';
+
+export type HistoryChange = {
+  type: 'update';
+  className: string;
+  objectId: string;
+  before: Record<string, any>;
+  after: Record<string, any>;
+} | {
+  type: 'create' | 'delete';
+  className: string;
+  objectId: string;
+  attributes: Record<string, any>;
+} | {
+  type: 'relationAdd' | 'relationRemove';
+  className: string;
+  objectId: string;
+  field: string;
+  target: string;
+  memberIds: string[];
+};
+
+export type HistoryEntry = {
+  label: string;
+  changes: HistoryChange[];
+};
+
+const MAX_HISTORY = 100;
+
+export const snapshotObject = (obj: TObject, keys: string[]) => _.fromPairs(_.map(keys, k => [k, obj.get(k)]));
+
+const saveAttributes = async (proto: ProtoClient, className: string, objectId: string | undefined, attributes: Record<string, any>) => {
+  const obj = proto.Object(className, objectId);
+  for (const [key, value] of _.toPairs(attributes)) {
+    obj.set(key, value);
+  }
+  await obj.save({ master: true });
+  return obj;
+};
+
+const updateRelation = async (
+  proto: ProtoClient,
+  change: Extract<HistoryChange, { type: 'relationAdd' | 'relationRemove' }>,
+  add: boolean,
+) => {
+  const parent = proto.Object(change.className, change.objectId);
+  const members = _.map(change.memberIds, id => proto.Object(change.target, id));
+  if (add) {
+    parent.addToSet(change.field, members);
+  } else {
+    parent.removeAll(change.field, members);
+  }
+  await parent.save({ master: true });
+};
+
+// Deleted objects are recreated with a new id, so every recorded change
+// that refers to the old id must follow it.
+const remapChange = (change: HistoryChange, ids: Record<string, string>): HistoryChange => {
+  const remapped = { ...change, objectId: ids[change.objectId] ?? change.objectId };
+  if (remapped.type === 'relationAdd' || remapped.type === 'relationRemove') {
+    return { ...remapped, memberIds: _.map(remapped.memberIds, id => ids[id] ?? id) };
+  }
+  return remapped;
+};
+
+const remapEntries = (entries: HistoryEntry[], ids: Record<string, string>) => {
+  if (_.isEmpty(ids)) return entries;
+  return _.map(entries, entry => ({ ...entry, changes: _.map(entry.changes, change => remapChange(change, ids)) }));
+};
+
+export const useUndoHistory = (proto: ProtoClient) => {
+  const [stacks, setStacks] = useState<{ undo: HistoryEntry[]; redo: HistoryEntry[]; }>({ undo: [], redo: [] });
+
+  // Returns the id of the recreated object
+  const recreate = async (change: Extract<HistoryChange, { type: 'create' | 'delete' }>) => {
+    const obj = await saveAttributes(proto, change.className, undefined, change.attributes);
+    return obj.id;
+  };
+
+  const destroy = async (change: Extract<HistoryChange, { type: 'create' | 'delete' }>) => {
+    await proto.Object(change.className, change.objectId).destroy({ master: true });
+  };
+
+  const revert = async (change: HistoryChange) => {
+    switch (change.type) {
+      case 'update': await saveAttributes(proto, change.className, change.objectId, change.before); break;
+      case 'create': await destroy(change); break;
+      case 'delete': return recreate(change);
+      case 'relationAdd': await updateRelation(proto, change, false); break;
+      case 'relationRemove': await updateRelation(proto, change, true); break;
+    }
+  };
+
+  const apply = async (change: HistoryChange) => {
+    switch (change.type) {
+      case 'update': await saveAttributes(proto, change.className, change.objectId, change.after); break;
+      case 'create': return recreate(change);
+      case 'delete': await destroy(change); break;
+      case 'relationAdd': await updateRelation(proto, change, true); break;
+      case 'relationRemove': await updateRelation(proto, change, false); break;
+    }
+  };
+
+  const push = (entry: HistoryEntry) => {
+    if (_.isEmpty(entry.changes)) return;
+    setStacks(prev => ({ undo: _.takeRight([...prev.undo, entry], MAX_HISTORY), redo: [] }));
+  };
+
+  // Changes that succeeded move to the other stack, the ones left after a failure
+  // stay in place so a retry does not run the applied changes again.
+  // Ids of objects recreated before a failure are remapped either way.
+  const perform = async (entry: HistoryEntry, from: 'undo' | 'redo') => {
+    const ids: Record<string, string> = {};
+    const applied: HistoryChange[] = [];
+    try {
+      for (const change of from === 'undo' ? _.reverse([...entry.changes]) : entry.changes) {
+        const current = remapChange(change, ids);
+        const newId = from === 'undo' ? await revert(current) : await apply(current);
+        if (newId) ids[change.objectId] = newId;
+        applied.push(change);
+      }
+    } finally {
+      setStacks(prev => {
+        const moved = _.isEmpty(applied) ? [] : [{ ...entry, changes: _.filter(entry.changes, c => _.includes(applied, c)) }];
+        const rest = applied.length === entry.changes.length ? [] : [{ ...entry, changes: _.filter(entry.changes, c => !_.includes(applied, c)) }];
+        const next = from === 'undo'
+          ? { undo: [..._.without(prev.undo, entry), ...rest], redo: [...prev.redo, ...moved] }
+          : { undo: [...prev.undo, ...moved], redo: [..._.without(prev.redo, entry), ...rest] };
+        return { undo: remapEntries(next.undo, ids), redo: remapEntries(next.redo, ids) };
+      });
+    }
+    return entry;
+  };
+
+  const undo = async () => {
+    const entry = _.last(stacks.undo);
+    if (!entry) return;
+    return perform(entry, 'undo');
+  };
+
+  const redo = async () => {
+    const entry = _.last(stacks.redo);
+    if (!entry) return;
+    return perform(entry, 'redo');
+  };
+
+  const clear = () => setStacks({ undo: [], redo: [] });
+
+  return {
+    canUndo: !_.isEmpty(stacks.undo),
+    canRedo: !_.isEmpty(stacks.redo),
+    push,
+    undo,
+    redo,
+    clear,
+  };
+};
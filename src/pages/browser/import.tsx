@@ -0,0 +1,582 @@
+//
+//  import.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { csvParse } from 'd3-dsv';
+import { ComponentRef, useRef, useResource, useState } from 'frosty';
+import { Decimal } from 'proto.io';
+import { TSchema, useProto } from '../../proto';
+import { _typeOf, expandColumns, typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { decodeRawValue, decodeValue, encodeValue, readonlyKeysForSchema } from './utils';
+import { tdStyle, thStyle } from './tableStyle';
+
+type ImportStep = 'select' | 'mapping' | 'import';
+type ImportMode = 'insert' | 'upsert';
+
+type ImportColumn = ReturnType<typeof expandColumns>[number];
+
+type ImportError = {
+  row: number;
+  message: string;
+};
+
+const IMPORT_BATCH_SIZE = 50;
+const PREVIEW_ROWS = 5;
+
+// Parse the file content into records keyed by source column
+const parseSource = (filename: string, text: string) => {
+  if (/\.(ndjson|jsonl)$/i.test(filename)) {
+    const rows = _.map(_.filter(text.split('\n'), line => !_.isEmpty(line.trim())), line => JSON.parse(line));
+    return { columns: _.uniq(_.flatMap(rows, _.keys)), rows };
+  }
+  if (/\.json$/i.test(filename)) {
+    const data = JSON.parse(text);
+    const rows = _.isArray(data) ? data : [data];
+    return { columns: _.uniq(_.flatMap(rows, _.keys)), rows };
+  }
+  const rows = csvParse(text);
+  return { columns: rows.columns, rows: [...rows] as Record<string, any>[] };
+};
+
+// Restore values exported with the lossless `ISODate('…')` / `Decimal('…')` encodings
+const reviveValue = (value: any): any => {
+  if (_.isString(value) && /^(ISODate|Decimal)\(.*\)$/.test(value)) {
+    try {
+      return decodeValue(value);
+    } catch {
+      return value;
+    }
+  }
+  if (_.isArray(value)) return _.map(value, reviveValue);
+  if (_.isPlainObject(value)) return _.mapValues(value, reviveValue);
+  return value;
+};
+
+// Convert a source value into the raw text form accepted by `decodeRawValue`
+const toRawText = (value: any, type?: string): string | null => {
+  if (_.isNil(value)) return null;
+  if (_.isString(value) && type === 'string') return value;
+  const revived = reviveValue(value);
+  if (_.isString(revived)) return revived;
+  if (_.isNumber(revived) || _.isBoolean(revived)) return `${revived}`;
+  if (_.isDate(revived)) return revived.toISOString();
+  if (revived instanceof Decimal) return revived.toString();
+  return encodeValue(revived, 0);
+};
+
+// Display a decoded value in the preview table
+const previewValue = (value: any) => {
+  if (_.isNil(value)) return 'null';
+  if (_.isArray(value) && _.some(value, v => _.isFunction(v?.fetch))) return `[${_.map(value, v => v.id).join(', ')}]`;
+  if (_.isFunction(value?.fetch)) return value.id;
+  return encodeValue(value, 0);
+};
+
+const cellStyle = (theme: ReturnType<typeof useTheme>, idx: number) => ({
+  ...tdStyle(theme, idx),
+  fontFamily: 'monospace',
+  whiteSpace: 'nowrap' as const,
+});
+
+type ImportModalProps = {
+  schema: TSchema;
+  className: string;
+  onComplete: () => void;
+  onCancel: () => void;
+};
+
+export const ImportModal = ({ schema, className, onComplete, onCancel }: ImportModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const fileInputRef = useRef<ComponentRef<'input'>>();
+
+  const [step, setStep] = useState<ImportStep>('select');
+  const [source, setSource] = useState<{ filename: string; columns: string[]; rows: Record<string, any>[]; }>();
+  const [parseError, setParseError] = useState<string>();
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [mode, setMode] = useState<ImportMode>('insert');
+  const [upsertKey, setUpsertKey] = useState('_id');
+  const [progress, setProgress] = useState({ processed: 0, succeeded: 0 });
+  const [errors, setErrors] = useState<ImportError[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const cancelled = useRef(false);
+
+  // Only writable fields can be mapped; `_id` is allowed to match existing objects
+  const readonlyKeys = readonlyKeysForSchema(schema);
+  const targetColumns = _.filter(expandColumns(schema.fields), col => col.key === '_id' || !readonlyKeys.includes(col.baseField));
+  const mappedColumns = _.compact(_.map(mapping, target => _.find(targetColumns, c => c.key === target)));
+  const keyColumns = _.filter(mappedColumns, col => _.includes(['string', 'number', 'decimal', 'date', 'boolean', 'pointer'], _typeOf(col.fieldType)));
+
+  const handleSelectFile = async (file: File) => {
+    try {
+      const parsed = parseSource(file.name, await file.text());
+      setSource({ filename: file.name, ...parsed });
+      setParseError(undefined);
+      // Map source columns to fields with the same name by default
+      setMapping(_.pickBy(
+        _.fromPairs(_.map(parsed.columns, c => [c, _.find(targetColumns, t => t.key === c)?.key ?? ''])),
+        target => !_.isEmpty(target),
+      ));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to parse file:', error);
+      setParseError(error instanceof Error ? error.message : 'Failed to parse file');
+    }
+  };
+
+  const decodeRow = async (row: Record<string, any>) => {
+    const attrs: Record<string, any> = {};
+    const messages: Record<string, string> = {};
+    for (const [sourceKey, targetKey] of _.toPairs(mapping)) {
+      const column = _.find(targetColumns, c => c.key === targetKey);
+      if (!column || !_.has(row, sourceKey)) continue;
+      const type = _typeOf(column.fieldType);
+      const text = toRawText(row[sourceKey], type);
+      try {
+        if (_.isNil(text) || (_.isEmpty(text) && type !== 'string')) {
+          attrs[targetKey] = null;
+        } else {
+          const value = await decodeRawValue(proto, column.fieldType, text);
+          if (_.isNil(value)) throw Error(`Invalid ${typeOf(column.fieldType)} value: ${text}`);
+          attrs[targetKey] = value;
+        }
+      } catch (error) {
+        messages[targetKey] = error instanceof Error ? error.message : 'Invalid value';
+      }
+    }
+    return { attrs, messages };
+  };
+
+  const { resource: preview = [] } = useResource(async () => {
+    if (step !== 'mapping' || !source) return [];
+    return Promise.all(_.map(_.take(source.rows, PREVIEW_ROWS), decodeRow));
+  }, [step, source, mapping]);
+
+  const saveRow = async (attrs: Record<string, any>) => {
+    const values = _.omit(attrs, '_id');
+    const nested = _.reduce(values, (acc, v, k) => _.set(acc, k, v), {} as Record<string, any>);
+    if (mode === 'insert') {
+      await proto.Query(className).insert(nested, { master: true });
+      return;
+    }
+    const keyValue = attrs[upsertKey];
+    if (_.isNil(keyValue)) throw Error(`Missing value for key field ${upsertKey}`);
+    await proto.Query(className)
+      .filter({ [upsertKey]: { $eq: keyValue } })
+      .upsertOne(_.mapValues(values, v => ({ $set: v })), nested, { master: true });
+  };
+
+  const handleImport = async () => {
+    if (!source) return;
+    cancelled.current = false;
+    setIsImporting(true);
+    setStep('import');
+    setProgress({ processed: 0, succeeded: 0 });
+    setErrors([]);
+
+    let processed = 0;
+    let succeeded = 0;
+    for (const batch of _.chunk(_.map(source.rows, (row, idx) => ({ row, idx })), IMPORT_BATCH_SIZE)) {
+      if (cancelled.current) break;
+      const results = await Promise.allSettled(_.map(batch, async ({ row }) => {
+        const { attrs, messages } = await decodeRow(row);
+        if (!_.isEmpty(messages)) throw Error(_.map(messages, (m, k) => `${k}: ${m}`).join('; '));
+        await saveRow(attrs);
+      }));
+      const failures = _.compact(_.map(results, (result, i) => result.status === 'rejected' ? {
+        row: batch[i].idx + 1,
+        message: result.reason instanceof Error ? result.reason.message : `${result.reason}`,
+      } : undefined));
+      processed += batch.length;
+      succeeded += batch.length - failures.length;
+      setProgress({ processed, succeeded });
+      if (!_.isEmpty(failures)) setErrors(prev => [...prev, ...failures]);
+    }
+
+    setIsImporting(false);
+    if (succeeded > 0) onComplete();
+  };
+
+  const total = source?.rows.length ?? 0;
+  const canImport = !_.isEmpty(mappedColumns) && (mode === 'insert' || _.some(keyColumns, c => c.key === upsertKey));
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '800px',
+        maxWidth: '90vw',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Import into {className}
+          </h3>
+          <button
+            onClick={() => {
+              cancelled.current = true;
+              onCancel();
+            }}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          {step === 'select' && (
+            <>
+              <div style={{
+                fontSize: theme.fontSize.sm,
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.7,
+              }}>
+                Select a CSV, JSON or NDJSON file. JSON files should contain an array of objects, NDJSON files one object per line.
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,.ndjson,.jsonl"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.currentTarget.files?.[0];
+                  if (file) handleSelectFile(file);
+                }}
+              />
+              <div>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                    <Icon name="upload" size="sm" />
+                    <span>Choose File</span>
+                  </div>
+                </Button>
+              </div>
+              {parseError && (
+                <div style={{ fontSize: theme.fontSize.sm, color: theme.colors.error }}>
+                  {parseError}
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'mapping' && source && (
+            <>
+              <div style={{
+                fontSize: theme.fontSize.sm,
+                color: theme.colorContrast('#ffffff'),
+                opacity: 0.7,
+              }}>
+                {source.filename} • {total} {total === 1 ? 'row' : 'rows'}. Map each source column to a field, or leave it unmapped to skip it.
+              </div>
+
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+                {source.columns.map(sourceKey => (
+                  <div
+                    key={sourceKey}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: theme.spacing.sm,
+                      padding: theme.spacing.sm,
+                      border: `1px solid ${theme.colors['primary-200']}`,
+                      borderRadius: theme.borderRadius.md,
+                    }}
+                  >
+                    <div style={{
+                      flex: 1,
+                      fontSize: theme.fontSize.sm,
+                      fontFamily: 'monospace',
+                      color: theme.colorContrast('#ffffff'),
+                    }}>
+                      {sourceKey}
+                    </div>
+                    <span style={{ color: theme.colorContrast('#ffffff'), opacity: 0.5 }}>→</span>
+                    <select
+                      value={mapping[sourceKey] ?? ''}
+                      onChange={(e) => {
+                        const target = e.currentTarget.value;
+                        setMapping(prev => _.isEmpty(target) ? _.omit(prev, sourceKey) : { ...prev, [sourceKey]: target });
+                      }}
+                      style={{
+                        flex: 1,
+                        padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+                        fontSize: theme.fontSize.sm,
+                        borderRadius: theme.borderRadius.md,
+                        border: `1px solid ${theme.colors['primary-300']}`,
+                        backgroundColor: '#ffffff',
+                        color: theme.colorContrast('#ffffff'),
+                      }}
+                    >
+                      <option value="">(skip)</option>
+                      {targetColumns.map(col => (
+                        <option key={col.key} value={col.key}>{col.key} ({typeOf(col.fieldType)})</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.sm }}>
+                <Button
+                  variant={mode === 'insert' ? 'solid' : 'outline'}
+                  color="primary"
+                  size="sm"
+                  onClick={() => setMode('insert')}
+                >
+                  Insert
+                </Button>
+                <Button
+                  variant={mode === 'upsert' ? 'solid' : 'outline'}
+                  color="primary"
+                  size="sm"
+                  onClick={() => setMode('upsert')}
+                >
+                  Upsert
+                </Button>
+                {mode === 'upsert' && (
+                  <>
+                    <span style={{ fontSize: theme.fontSize.sm, color: theme.colorContrast('#ffffff') }}>by</span>
+                    <select
+                      value={upsertKey}
+                      onChange={(e) => setUpsertKey(e.currentTarget.value)}
+                      style={{
+                        padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+                        fontSize: theme.fontSize.sm,
+                        borderRadius: theme.borderRadius.md,
+                        border: `1px solid ${theme.colors['primary-300']}`,
+                        backgroundColor: '#ffffff',
+                        color: theme.colorContrast('#ffffff'),
+                      }}
+                    >
+                      {!_.some(keyColumns, c => c.key === upsertKey) && <option value={upsertKey}>{upsertKey} (not mapped)</option>}
+                      {keyColumns.map(col => (
+                        <option key={col.key} value={col.key}>{col.key}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+
+              {!_.isEmpty(mappedColumns) && (
+                <div>
+                  <div style={{
+                    marginBottom: theme.spacing.sm,
+                    fontSize: theme.fontSize.sm,
+                    fontWeight: theme.fontWeight.semibold,
+                    color: theme.colors.primary,
+                  }}>
+                    Preview (first {Math.min(PREVIEW_ROWS, total)} rows)
+                  </div>
+                  <div style={{
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                    overflow: 'auto',
+                  }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: theme.fontSize.sm }}>
+                      <thead>
+                        <tr>
+                          <th style={thStyle(theme)}>#</th>
+                          {mappedColumns.map(col => (
+                            <th key={col.key} style={thStyle(theme)}>{col.key} ({typeOf(col.fieldType)})</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.map(({ attrs, messages }, idx) => (
+                          <tr key={idx}>
+                            <td style={cellStyle(theme, idx)}>{idx + 1}</td>
+                            {mappedColumns.map(col => (
+                              <td key={col.key} style={cellStyle(theme, idx)}>
+                                {messages[col.key] ? (
+                                  <span style={{ color: theme.colors.error }}>{messages[col.key]}</span>
+                                ) : _.has(attrs, col.key) ? previewValue(attrs[col.key]) : (
+                                  <span style={{ opacity: 0.5 }}>—</span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'import' && (
+            <>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+                <div style={{
+                  height: 8,
+                  borderRadius: theme.borderRadius.sm,
+                  backgroundColor: theme.colors['primary-100'],
+                  overflow: 'hidden',
+                }}>
+                  <div style={{
+                    width: `${total > 0 ? progress.processed / total * 100 : 0}%`,
+                    height: '100%',
+                    backgroundColor: theme.colors.primary,
+                    transition: 'width 0.2s ease',
+                  }} />
+                </div>
+                <div style={{
+                  fontSize: theme.fontSize.xs,
+                  color: theme.colorContrast('#ffffff'),
+                  opacity: 0.7,
+                }}>
+                  {progress.processed} of {total} processed • {progress.succeeded} succeeded • {errors.length} failed
+                  {!isImporting && progress.processed < total && ' • cancelled'}
+                </div>
+              </div>
+
+              {!_.isEmpty(errors) && (
+                <div style={{
+                  border: `1px solid ${theme.colors['primary-200']}`,
+                  borderRadius: theme.borderRadius.md,
+                  overflow: 'auto',
+                  maxHeight: 300,
+                }}>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: theme.fontSize.sm }}>
+                    <thead>
+                      <tr>
+                        <th style={thStyle(theme)}>Row</th>
+                        <th style={thStyle(theme)}>Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {errors.map((error, idx) => (
+                        <tr key={idx}>
+                          <td style={cellStyle(theme, idx)}>{error.row}</td>
+                          <td style={{ ...cellStyle(theme, idx), color: theme.colors.error, whiteSpace: 'normal' }}>{error.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="ghost"
+            color="primary"
+            size="sm"
+            disabled={step !== 'mapping'}
+            onClick={() => setStep('select')}
+          >
+            Back
+          </Button>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            {isImporting ? (
+              <Button
+                variant="outline"
+                color="primary"
+                size="sm"
+                onClick={() => { cancelled.current = true; }}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                color="primary"
+                size="sm"
+                onClick={onCancel}
+              >
+                {step === 'import' ? 'Close' : 'Cancel'}
+              </Button>
+            )}
+            {step === 'mapping' && (
+              <Button
+                variant="solid"
+                color="primary"
+                size="sm"
+                disabled={!canImport}
+                onClick={handleImport}
+              >
+                Import {total} {total === 1 ? 'row' : 'rows'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -25,12 +25,15 @@
 
 import _ from 'lodash';
 import { tsvParseRows } from 'd3-dsv';
-import { useParams } from '../../components/router';
+import { useNavigate, useParams } from '../../components/router';
 import { QueryFilter, TObject, TSchema, useProto, useProtoSchema } from '../../proto';
-import { _useCallbacks, useEffect, useMemo, useResource, useState } from 'frosty';
-import { useSearchParams } from 'frosty/web';
+import { typeOf, expandColumns, quickSearchFilter } from '../../schema';
+import { _useCallbacks, useEffect, useMemo, useRef, useResource, useState } from 'frosty';
+import { useSearchParams, useWindow } from 'frosty/web';
 import { DataSheet } from '../../components/datasheet';
-import { _typeOf, typeOf, decodeValue, verifyValue, readonlyKeysForSchema } from './utils';
+import { DataSheetRef, Position, Range } from '../../components/datasheet/types';
+import { fillSeries } from '../../components/datasheet/fill';
+import { readonlyKeysForSchema, includesForColumns, decodeRawValue, keysetSort, keysetFilter, encodeCursor, decodeCursor } from './utils';
 import { TableCell } from './cell';
 import { useTheme } from '../../components/theme';
 import { useAlert } from '../../components/alert';
@@ -39,41 +42,35 @@ import { Decimal, serialize } from 'proto.io';
 import { Button } from '../../components/button';
 import { Icon } from '../../components/icon';
 import { FilterModal, decodeFiltersFromURLParams, encodeFiltersToURLParams } from './filter';
-import { ColumnSettingsModal } from './columnSettings';
+import { ColumnPin, ColumnSettingsModal, orderPinnedColumns } from './columnSettings';
+import { SortEditorModal } from './sortEditor';
+import { FormatRulesModal, useFormatRules } from './formatting';
 import { SchemaInfoModal } from './schemaInfo';
 import { DangerConfirmModal } from './dangerConfirm';
-
-// Helper: Expand schema fields into columns (flatten object types but not arrays)
-const expandColumns = (fields: TSchema['fields']) => {
-  const columns: Array<{
-    key: string;
-    baseField: string;
-    fieldType: TSchema['fields'][string];
-  }> = [];
-
-  const expandField = (fieldName: string, fieldType: TSchema['fields'][string], path: string[] = []) => {
-
-    if (!_.isString(fieldType) && fieldType.type === 'shape') {
-      // Expand object properties into separate columns
-      for (const [propName, propType] of Object.entries(fieldType.shape)) {
-        expandField(fieldName, propType, [...path, propName]);
-      }
-    } else {
-      // Regular field or non-expandable type
-      const key = path.length > 0 ? `${fieldName}.${path.join('.')}` : fieldName;
-      columns.push({
-        key,
-        baseField: fieldName,
-        fieldType,
-      });
-    }
-  };
-
-  for (const [fieldName, fieldType] of Object.entries(fields)) {
-    expandField(fieldName, fieldType);
-  }
-
-  return columns;
+import { ExportModal } from './export';
+import { ImportModal } from './import';
+import { HistoryChange, snapshotObject, useUndoHistory } from './history';
+import { ReviewChangesModal, StagedChange } from './staged';
+import { QuickSearch } from './search';
+import { AclChange, AclEditorModal } from './acl';
+import { NearestNeighborModal, vectorIndexes } from './vector';
+import { PivotView } from './pivot';
+import { ChartModal } from './chart';
+import { ColumnStatsPopover } from './columnStats';
+import { FindReplaceModal, ReplaceMatch } from './findReplace';
+import { BulkUpdateModal } from './bulkUpdate';
+import { DeleteMatchingModal } from './deleteMatching';
+import { DuplicateModal, DuplicateOptions, duplicateObjects } from './duplicate';
+import { SaveViewModal, SavedView, ViewStorage, isViewParam, useSavedViews, viewParamsFrom } from './views';
+
+type PagingMode = 'offset' | 'infinite' | 'cursor';
+
+// An edited object together with its state before the edit
+type SaveEntry = {
+  original?: TObject;
+  saved: TObject;
+  keys: string[];
+  password?: string;
 };
 
 export const BrowserPage = () => {
@@ -84,10 +81,33 @@ export const BrowserPage = () => {
   const schemas = useProtoSchema();
   const { [className]: schema } = schemas;
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
 
   const [showFilterModal, setShowFilterModal] = useState<number>();
   const [showColumnSettings, setShowColumnSettings] = useState<number>();
+  const [showSortEditor, setShowSortEditor] = useState<number>();
+  const [showFormatRules, setShowFormatRules] = useState<number>();
   const [showSchemaInfo, setShowSchemaInfo] = useState<number>();
+  const [showExport, setShowExport] = useState<number>();
+  const [showImport, setShowImport] = useState<number>();
+  const [showReview, setShowReview] = useState<number>();
+  const [showSaveView, setShowSaveView] = useState<number>();
+  const [showChart, setShowChart] = useState<number>();
+  const [showBulkUpdate, setShowBulkUpdate] = useState<number>();
+  const [showDeleteMatching, setShowDeleteMatching] = useState<number>();
+  const [duplicate, setDuplicate] = useState<{ key: number; objects: TObject[]; }>();
+  const [findReplace, setFindReplace] = useState<{ key: number; selection?: { objects: TObject[]; keys: string[]; }; }>();
+  const [columnStats, setColumnStats] = useState<{
+    key: number;
+    column: ReturnType<typeof expandColumns>[number];
+    top: number;
+    left: number;
+  }>();
+  const [aclObjects, setAclObjects] = useState<{ key: number; objects: TObject[]; }>();
+  const [nearest, setNearest] = useState<{ key: number; source?: TObject; }>();
+  const [stagedMode, setStagedMode] = useState(false);
+  const [pivotMode, setPivotMode] = useState(false);
+  const [staged, setStaged] = useState<StagedChange[]>([]);
   const [dangerConfirm, setDangerConfirm] = useState<{
     key: number;
     title: string;
@@ -105,18 +125,27 @@ export const BrowserPage = () => {
   const [columnWidth, setColumnWidth] = useState<Record<string, number>>({});
   const [columnOrder, setColumnOrder] = useState<string[]>([]);
   const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set());
+  const [columnPins, setColumnPins] = useState<Record<string, ColumnPin>>({});
+  const sheetRef = useRef<DataSheetRef>();
 
   const startActivity = useActivity();
+  const history = useUndoHistory(proto);
+  const savedViews = useSavedViews(className);
+  const [formatRules, setFormatRules] = useFormatRules(className);
+  const appliedView = useRef<string>();
 
   // Parse URL search params for state persistence
-  const { filter, relationQuery, limit, offset, sort } = useMemo(() => {
+  const { filter, search, relationQuery, limit, offset, sort, paging, cursor } = useMemo(() => {
     const params = searchParams;
     const relationOf = params.get('relationOf');
     const relationId = params.get('relationId');
     const relationField = params.get('relationField');
     const limitParam = params.get('limit');
     const offsetParam = params.get('offset');
+    const pagingParam = params.get('paging');
     const sortParam = params.get('sort');
+    const searchParam = params.get('q');
+    const searchFieldsParam = params.get('qFields');
 
     // Derive filter and relationQuery
     let filter: QueryFilter[] = [];
@@ -130,11 +159,25 @@ export const BrowserPage = () => {
       filter = decodeFiltersFromURLParams(params, proto);
     }
 
+    // Parse quick search
+    const search = {
+      text: searchParam ?? '',
+      fields: searchFieldsParam ? _.compact(searchFieldsParam.split(',')) : [],
+    };
+
     // Parse limit
     const limit = limitParam ? parseInt(limitParam) : 20;
 
+    // Parse paging mode, infinite scroll always starts from the first row
+    const paging: PagingMode = pagingParam === 'infinite' || pagingParam === 'cursor' ? pagingParam : 'offset';
+
+    // Parse cursor for keyset pagination
+    const after = paging === 'cursor' ? decodeCursor(params.get('after')) : undefined;
+    const before = paging === 'cursor' && !after ? decodeCursor(params.get('before')) : undefined;
+    const cursor = after ? { direction: 'after' as const, values: after } : before ? { direction: 'before' as const, values: before } : undefined;
+
     // Parse offset
-    const offset = offsetParam ? parseInt(offsetParam) : 0;
+    const offset = offsetParam && paging === 'offset' ? parseInt(offsetParam) : 0;
 
     // Parse sort
     let sort: Record<string, 1 | -1> = {};
@@ -146,7 +189,7 @@ export const BrowserPage = () => {
       }
     }
 
-    return { filter, relationQuery, limit, offset, sort };
+    return { filter, search, relationQuery, limit, offset, sort, paging, cursor };
   }, [searchParams, proto]);
 
   // Helper functions to update URL params
@@ -155,6 +198,27 @@ export const BrowserPage = () => {
       // Use centralized encoder to update filter params
       encodeFiltersToURLParams(newFilter, params, proto);
       params.delete('offset');
+      params.delete('after');
+      params.delete('before');
+      return params;
+    });
+  };
+
+  const updateSearch = (text: string, fields: string[]) => {
+    setSearchParams(params => {
+      if (text) {
+        params.set('q', text);
+      } else {
+        params.delete('q');
+      }
+      if (!_.isEmpty(fields)) {
+        params.set('qFields', fields.join(','));
+      } else {
+        params.delete('qFields');
+      }
+      params.delete('offset');
+      params.delete('after');
+      params.delete('before');
       return params;
     });
   };
@@ -166,6 +230,8 @@ export const BrowserPage = () => {
       } else {
         params.delete('sort');
       }
+      params.delete('after');
+      params.delete('before');
       return params;
     });
   };
@@ -174,6 +240,31 @@ export const BrowserPage = () => {
     setSearchParams(params => {
       params.set('limit', String(newLimit));
       params.delete('offset');
+      params.delete('after');
+      params.delete('before');
+      return params;
+    });
+  };
+
+  const updatePaging = (newPaging: PagingMode) => {
+    setSearchParams(params => {
+      if (newPaging !== 'offset') {
+        params.set('paging', newPaging);
+      } else {
+        params.delete('paging');
+      }
+      params.delete('offset');
+      params.delete('after');
+      params.delete('before');
+      return params;
+    });
+  };
+
+  const updateCursor = (direction?: 'after' | 'before', cursor?: string) => {
+    setSearchParams(params => {
+      params.delete('after');
+      params.delete('before');
+      if (direction && cursor) params.set(direction, cursor);
       return params;
     });
   };
@@ -196,11 +287,53 @@ export const BrowserPage = () => {
   useEffect(() => {
     setColumnOrder([]);
     setHiddenColumns(new Set());
+    setColumnPins({});
+    setStaged([]);
+    history.clear();
+    appliedView.current = undefined;
   }, [className]);
 
-  // Apply column order and visibility
+  // Restore the column layout of a view opened from a shared link
+  const viewName = searchParams.get('view');
+  const currentView = _.find(savedViews.views, v => v.name === viewName);
+  useEffect(() => {
+    if (!currentView || appliedView.current === currentView.name) return;
+    appliedView.current = currentView.name;
+    setColumnOrder(currentView.columnOrder);
+    setHiddenColumns(new Set(currentView.hiddenColumns));
+    setColumnPins(currentView.columnPins);
+    setColumnWidth(currentView.columnWidth);
+    if (currentView.rules) setFormatRules(currentView.rules);
+  }, [currentView]);
+
+  const applyView = (view?: SavedView) => {
+    setSearchParams(params => {
+      for (const key of [...params.keys()]) {
+        if (isViewParam(key)) params.delete(key);
+      }
+      params.delete('offset');
+      params.delete('after');
+      params.delete('before');
+      params.delete('view');
+      if (view) {
+        for (const [key, value] of new URLSearchParams(view.params).entries()) {
+          params.append(key, value);
+        }
+        params.set('view', view.name);
+      }
+      return params;
+    });
+    appliedView.current = view?.name;
+    setColumnOrder(view?.columnOrder ?? []);
+    setHiddenColumns(new Set(view?.hiddenColumns));
+    setColumnPins(view?.columnPins ?? {});
+    setColumnWidth(view?.columnWidth ?? {});
+    if (view?.rules) setFormatRules(view.rules);
+  };
+
+  // Apply column order, visibility and pinning
   const visibleColumns = useMemo(() => {
-    if (columnOrder.length === 0) return expandedColumns;
+    if (columnOrder.length === 0) return orderPinnedColumns(expandedColumns, col => col.key, columnPins);
 
     // Sort columns by order and filter out hidden ones
     const orderedCols = columnOrder
@@ -212,13 +345,37 @@ export const BrowserPage = () => {
       !columnOrder.includes(col.key) && !hiddenColumns.has(col.key)
     );
 
-    return [...orderedCols, ...newCols];
-  }, [expandedColumns, columnOrder, hiddenColumns]);
+    return orderPinnedColumns([...orderedCols, ...newCols], col => col.key, columnPins);
+  }, [expandedColumns, columnOrder, hiddenColumns, columnPins]);
+
+  // Build query: start with relation or regular query, then apply filters
+  const query = useMemo(() => {
+    const q = relationQuery
+      ? proto.Relation(proto.Object(relationQuery.className, relationQuery.objectId), relationQuery.field)
+      : proto.Query(className);
+
+    // Apply filters to the query (works for both relation and regular queries)
+    const searchFilter = quickSearchFilter(expandedColumns, search.text, search.fields);
+    return _.reduce(_.compact([...filter, searchFilter]), (query, f) => query.filter(f), q);
+  }, [proto, className, filter, search, relationQuery, expandedColumns]);
+
+  // Query for one page of results starting at the given row
+  const pageQuery = (skip: number) => {
+    const q = query.clone();
+    // need to includes all pointer and relation fields
+    q.includes(...includesForColumns(expandedColumns));
+    q.limit(limit);
+    if (skip > 0) q.skip(skip);
+    if (!_.isEmpty(sort)) q.sort(sort);
+    return q;
+  };
 
   const {
     resource: {
-      items = [],
+      items: loadedItems = [],
       count = 0,
+      hasPrev = false,
+      hasNext = false,
     } = {},
     setResource,
     refresh,
@@ -226,6 +383,8 @@ export const BrowserPage = () => {
     className: string;
     count: number;
     items: TObject[];
+    hasPrev?: boolean;
+    hasNext?: boolean;
   }>(async ({ prevState, dispatch }) => {
 
     if (prevState?.className !== className) {
@@ -233,32 +392,72 @@ export const BrowserPage = () => {
       dispatch({ className, count: 0, items: [] });
     }
 
-    // Build query: start with relation or regular query, then apply filters
-    let q = relationQuery
-      ? proto.Relation(proto.Object(relationQuery.className, relationQuery.objectId), relationQuery.field)
-      : proto.Query(className);
-
-    // Apply filters to the query (works for both relation and regular queries)
-    q = _.reduce(filter, (query, f) => query.filter(f), q);
+    const count = await query.count({ master: true });
+
+    if (paging === 'cursor') {
+      // Fetch one extra row to find out whether there is another page in the direction of travel
+      const order = keysetSort(sort);
+      const q = query.clone();
+      q.includes(...includesForColumns(expandedColumns));
+      q.limit(limit + 1);
+      if (cursor) q.filter(keysetFilter(sort, cursor.values, cursor.direction));
+      q.sort(cursor?.direction === 'before' ? _.mapValues(order, o => o === 1 ? -1 : 1) : order);
+      const result = await q.find({ master: true });
+      const page = _.take(result, limit);
+      const hasMore = result.length > limit;
+      return cursor?.direction === 'before' ? {
+        className,
+        count,
+        items: _.reverse(page),
+        hasPrev: hasMore,
+        hasNext: true,
+      } : {
+        className,
+        count,
+        items: page,
+        hasPrev: !!cursor,
+        hasNext: hasMore,
+      };
+    }
 
-    const count = await q.count({ master: true });
-    const relation = _.filter(expandedColumns, ({ fieldType: type }) => !_.isString(type) && (type.type === 'pointer' || type.type === 'relation'));
-    const files = _.filter(expandedColumns, ({ fieldType: type }) => !_.isString(type) && type.type === 'pointer' && type.target === 'File');
-    // need to includes all pointer and relation fields
-    q.includes(
-      '*',
-      ..._.map(relation, ({ key }) => `${key}._id`),
-      ..._.map(files, ({ key }) => `${key}.filename`),
-    );
-    q.limit(limit);
-    if (offset > 0) q.skip(offset);
-    if (!_.isEmpty(sort)) q.sort(sort);
     return {
       className,
       count,
-      items: await q.find({ master: true }),
+      items: await pageQuery(offset).find({ master: true }),
     };
-  }, [className, expandedColumns, filter, relationQuery, limit, offset, sort]);
+  }, [className, expandedColumns, query, limit, offset, sort, paging, cursor]);
+
+  // Append the next page when scrolled to the end in infinite scroll mode
+  const loadingMore = useRef(false);
+  const handleLoadMore = () => {
+    if (paging !== 'infinite' || loadingMore.current || loadedItems.length >= count) return;
+    loadingMore.current = true;
+    (async () => {
+      try {
+        const more = await pageQuery(loadedItems.length).find({ master: true });
+        setResource((prev) => ({
+          ...prev,
+          className,
+          items: [...prev?.items ?? [], ...more],
+          count: prev?.count ?? count,
+        }));
+      } catch (error) {
+        console.error('Failed to load more items:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to load more items');
+      } finally {
+        loadingMore.current = false;
+      }
+    })();
+  };
+
+  // Overlay staged changes on the loaded page, new objects are listed at the end
+  const items = useMemo(() => {
+    if (_.isEmpty(staged)) return loadedItems;
+    return [
+      ..._.map(loadedItems, i => _.find(staged, c => !_.isNil(i.id) && c.current.id === i.id)?.current ?? i),
+      ..._.map(_.filter(staged, c => _.isNil(c.current.id)), c => c.current),
+    ];
+  }, [loadedItems, staged]);
 
   const [editingValue, setEditingValue] = useState<any>();
 
@@ -274,6 +473,210 @@ export const BrowserPage = () => {
     setShowFilterModal(undefined);
   };
 
+  const handleSaveView = (name: string, storage: ViewStorage) => {
+    const view: SavedView = {
+      name,
+      storage,
+      params: viewParamsFrom(searchParams),
+      columnOrder,
+      hiddenColumns: [...hiddenColumns],
+      columnPins,
+      columnWidth,
+      // Views without rules leave the rules of the class untouched when applied
+      rules: _.isEmpty(formatRules) ? undefined : formatRules,
+    };
+    startActivity(async () => {
+      try {
+        await savedViews.save(view);
+        setSearchParams(params => {
+          params.set('view', name);
+          return params;
+        });
+        appliedView.current = name;
+        setShowSaveView(undefined);
+        alert.showSuccess(`Saved view "${name}"`);
+      } catch (error) {
+        console.error('Failed to save view:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to save view');
+      }
+    });
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    startActivity(async () => {
+      try {
+        await savedViews.remove(view);
+        setSearchParams(params => {
+          params.delete('view');
+          return params;
+        });
+        alert.showSuccess(`Deleted view "${view.name}"`);
+      } catch (error) {
+        console.error('Failed to delete view:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to delete view');
+      }
+    });
+  };
+
+  const handleEditPermissions = () => {
+    const rows = sheetRef.current?.selectedRows ?? [];
+    const objects = _.compact(_.map(rows, row => items[row]));
+    if (_.isEmpty(objects)) {
+      alert.showError('Select the rows to edit permissions');
+      return;
+    }
+    setAclObjects({ key: Date.now(), objects });
+  };
+
+  const handleSaveAcl = (changes: { object: TObject; acl: AclChange; }[]) => {
+    startActivity(async () => {
+      try {
+        const saves = _.map(_.filter(changes, ({ object, acl }) => {
+          const { read, update } = object.acl();
+          return !_.isEqual(read, acl.read) || !_.isEqual(update, acl.write);
+        }), ({ object, acl }) => {
+          const cloned = object.clone();
+          cloned.setAcl({ read: acl.read, update: acl.write });
+          return { original: object, saved: cloned, keys: ['_rperm', '_wperm'] };
+        });
+        setAclObjects(undefined);
+        if (_.isEmpty(saves)) return;
+        const isStaged = await performSaves('Edit permissions', saves);
+        if (!isStaged) alert.showSuccess(`Permissions of ${saves.length} object(s) updated successfully`);
+      } catch (error) {
+        console.error('Failed to update permissions:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to update permissions');
+      }
+    });
+  };
+
+  // Values written by a fill, keyed by row. The target range extends the source along one axis.
+  const fillValues = async (source: Range<Position>, target: Range<Position>) => {
+    const valueAt = (row: number, col: number) => {
+      const column = visibleColumns[col];
+      return column ? items[row]?.get(column.key) : undefined;
+    };
+    // Values filled into a column of another type (or pointer target) are decoded from their text
+    const convert = async (value: any, from: number, to: number) => {
+      const fromColumn = visibleColumns[from];
+      const toColumn = visibleColumns[to];
+      if (_.isNil(value) || !toColumn) return value;
+      const sameType = typeOf(fromColumn?.fieldType) === typeOf(toColumn.fieldType)
+        && _.get(fromColumn?.fieldType, 'target') === _.get(toColumn.fieldType, 'target');
+      if (sameType) return value;
+      try {
+        return await decodeRawValue(proto, toColumn.fieldType, encodeValue(value));
+      } catch {
+        return;
+      }
+    };
+    const result = new Map<number, Record<string, any>>();
+    const assign = (row: number, col: number, value: any) => {
+      const column = visibleColumns[col];
+      if (!column) return;
+      result.set(row, { ...result.get(row), [column.key]: value ?? null });
+    };
+    if (target.start.col === source.start.col && target.end.col === source.end.col) {
+      const backward = target.start.row < source.start.row;
+      const rows = backward ? _.rangeRight(target.start.row, source.start.row) : _.range(source.end.row + 1, target.end.row + 1);
+      for (const col of _.range(source.start.col, source.end.col + 1)) {
+        const values = _.map(_.range(source.start.row, source.end.row + 1), row => valueAt(row, col));
+        _.forEach(fillSeries(backward ? _.reverse(values) : values, rows.length), (value, i) => assign(rows[i], col, value));
+      }
+    } else {
+      const backward = target.start.col < source.start.col;
+      const cols = backward ? _.rangeRight(target.start.col, source.start.col) : _.range(source.end.col + 1, target.end.col + 1);
+      const sourceCols = backward ? _.rangeRight(source.start.col, source.end.col + 1) : _.range(source.start.col, source.end.col + 1);
+      for (const row of _.range(source.start.row, source.end.row + 1)) {
+        const values = _.map(sourceCols, col => valueAt(row, col));
+        for (const [i, value] of fillSeries(values, cols.length).entries()) {
+          const converted = await convert(value, sourceCols[i % sourceCols.length], cols[i]);
+          // Skip cells the value cannot be converted for
+          if (!_.isNil(value) && _.isNil(converted)) continue;
+          assign(row, cols[i], converted);
+        }
+      }
+    }
+    return _.sortBy([...result.entries()], ([row]) => row);
+  };
+
+  const handleOpenFindReplace = () => {
+    const cells = sheetRef.current?.selectedCells;
+    const selection = cells ? {
+      objects: _.compact(_.map(_.range(Math.min(cells.start.row, cells.end.row), Math.max(cells.start.row, cells.end.row) + 1), row => items[row])),
+      keys: _.compact(_.map(_.range(Math.min(cells.start.col, cells.end.col), Math.max(cells.start.col, cells.end.col) + 1), col => visibleColumns[col]?.key)),
+    } : undefined;
+    setFindReplace({ key: Date.now(), selection });
+  };
+
+  const handleReplace = (matches: ReplaceMatch[]) => {
+    startActivity(async () => {
+      try {
+        const saves: SaveEntry[] = [];
+        for (const group of _.values(_.groupBy(matches, m => m.object.id))) {
+          const original = group[0].object;
+          const cloned = original.clone();
+          for (const { key, after } of group) cloned.set(key, after);
+          saves.push({ original, saved: cloned, keys: _.uniq(_.map(group, 'key')) });
+        }
+        setFindReplace(undefined);
+        const isStaged = await performSaves(`Replace in ${saves.length} object(s)`, saves);
+        // Objects outside of the current page were changed, reload the page
+        if (!isStaged && _.some(saves, ({ original }) => !_.includes(items, original))) refresh();
+        alert.showSuccess(`${matches.length} value(s) ${isStaged ? 'staged for replacing' : 'replaced'} in ${saves.length} object(s)`);
+      } catch (error) {
+        console.error('Failed to replace values:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to replace values');
+      }
+    });
+  };
+
+  const handleOpenDuplicate = () => {
+    const rows = sheetRef.current?.selectedRows ?? [];
+    const objects = _.filter(_.compact(_.map(rows, row => items[row])), obj => !_.isNil(obj.id));
+    if (_.isEmpty(objects)) {
+      alert.showError('Select the rows to duplicate');
+      return;
+    }
+    setDuplicate({ key: Date.now(), objects });
+  };
+
+  const handleDuplicate = (options: DuplicateOptions) => {
+    if (!schema || !duplicate) return;
+    const { objects } = duplicate;
+    setDuplicate(undefined);
+    startActivity(async () => {
+      try {
+        const saves = await duplicateObjects(proto, className, schema, objects, options);
+        const isStaged = await performSaves(`Duplicate ${objects.length} object(s)`, saves);
+        alert.showSuccess(`${saves.length} ${saves.length === 1 ? 'copy' : 'copies'} ${isStaged ? 'staged' : 'created'} successfully`);
+      } catch (error) {
+        console.error('Failed to duplicate objects:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to duplicate objects');
+      }
+    });
+  };
+
+  const handleFindSimilar = () => {
+    const rows = sheetRef.current?.selectedRows ?? [];
+    // Search around the selected row, or a pasted vector when no single row is selected
+    const source = rows.length === 1 ? items[rows[0]] : undefined;
+    setNearest({ key: Date.now(), source });
+  };
+
+  const win = useWindow();
+  const handleCopyViewLink = () => {
+    startActivity(async () => {
+      try {
+        await win.navigator.clipboard.writeText(win.location.href);
+        alert.showSuccess('Link copied to clipboard');
+      } catch (error) {
+        console.error('Failed to copy link:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to copy link');
+      }
+    });
+  };
+
   const decodeClipboardData = async (
     clipboard: DataTransfer | Clipboard,
     json: boolean,
@@ -290,59 +693,24 @@ export const BrowserPage = () => {
     }
   };
 
-  const decodeRawValue = async (type: string, value: string) => {
-    switch (type) {
-      case 'boolean':
-        if (value.toLowerCase() === 'true') return true;
-        if (value.toLowerCase() === 'false') return false;
-        break;
-      case 'number':
-        {
-          const number = parseFloat(value);
-          if (_.isFinite(number)) return number;
-          break;
-        }
-      case 'decimal':
-        {
-          const number = new Decimal(value);
-          if (number.isFinite()) return number;
-          break;
-        }
-      case 'string': return value;
-      case 'date':
-        {
-          const date = new Date(value);
-          if (_.isFinite(date.valueOf())) return date;
-          break;
-        }
-      case 'object':
-      case 'array':
-      case 'string[]':
-        const parsed = decodeValue(value);
-        verifyValue(parsed);
-        return parsed;
-      case 'pointer':
-        if (!_.isEmpty(value)) return proto.Object(className, value).fetch({ master: true });
-        break;
-      case 'relation':
-        const _value = JSON.parse(value);
-        if (_.isArray(_value) && _.every(_value, v => !_.isEmpty(v) && _.isString(v))) {
-          return await Promise.all(_.map(_value, v => proto.Object(className, v).fetch({ master: true })));
-        }
-        break;
-      default: break;
-    }
-  };
-
-  const performSaves = async (items: TObject[]) => {
-    for (const item of items) {
-      await item.save({ master: true });
+  const saveObjects = async (label: string, saves: SaveEntry[]) => {
+    const items = _.map(saves, s => s.saved);
+    for (const { saved, keys, password } of saves) {
+      // Files created along with the edit, e.g. uploads or copies made by duplicate, are uploaded first
+      for (const key of keys) {
+        const value = saved.get(key);
+        if (typeOf(schema?.fields[key]) === 'file' && _.isFunction(value?.save) && !value.id) await value.save({ master: true });
+      }
+      await saved.save({ master: true });
+      // Passwords can only be set once the object exists
+      if (!_.isNil(password)) await proto.setPassword(saved, password, { master: true });
     }
     if (relationQuery && canEditInRelationMode) {
       const parentObj = proto.Object(relationQuery.className, relationQuery.objectId);
       parentObj.addToSet(relationQuery.field, items);
       await parentObj.save({ master: true });
     }
+    recordSaves(label, saves);
     setResource((prev) => {
       const prevItems = prev?.items ?? [];
       const newItems = [
@@ -350,6 +718,7 @@ export const BrowserPage = () => {
         ..._.filter(items, it => !_.some(prevItems, p => p.id === it.id))
       ];
       return {
+        ...prev,
         className,
         items: newItems,
         count: prev?.count ?? newItems.length,
@@ -357,11 +726,69 @@ export const BrowserPage = () => {
     });
   };
 
+  // Accumulate edits locally instead of saving them
+  const stageSaves = (saves: SaveEntry[]) => {
+    setStaged(prev => {
+      const next = [...prev];
+      for (const { original, saved, keys, password } of saves) {
+        if (_.isEmpty(keys) && _.isNil(password)) continue;
+        const idx = _.findIndex(next, c => c.current === original || (!_.isNil(original?.id) && c.current.id === original.id));
+        if (idx >= 0) {
+          next[idx] = { ...next[idx], current: saved, keys: _.union(next[idx].keys, keys), password: password ?? next[idx].password };
+        } else {
+          next.push({ original: original?.id ? original : undefined, current: saved, keys, password });
+        }
+      }
+      return next;
+    });
+  };
+
+  // Save the edited objects, or stage them for review in staged mode.
+  // Returns true when the changes were staged.
+  const performSaves = async (label: string, saves: SaveEntry[]) => {
+    if (stagedMode) {
+      stageSaves(saves);
+      return true;
+    }
+    await saveObjects(label, saves);
+    return false;
+  };
+
+  // Record saved objects in the undo history, compared against their state before the edit
+  const recordSaves = (label: string, saves: SaveEntry[]) => {
+    const changes: HistoryChange[] = [];
+    for (const { original, saved, keys } of saves) {
+      if (!saved.id || _.isEmpty(keys)) continue;
+      if (original?.id) {
+        changes.push({ type: 'update', className, objectId: saved.id, before: snapshotObject(original, keys), after: snapshotObject(saved, keys) });
+      } else {
+        changes.push({ type: 'create', className, objectId: saved.id, attributes: snapshotObject(saved, keys) });
+      }
+    }
+    const created = _.compact(_.map(saves, ({ original, saved }) => original?.id ? undefined : saved.id));
+    if (relationQuery && canEditInRelationMode && !_.isEmpty(created)) {
+      changes.push({ type: 'relationAdd', ...relationQuery, target: className, memberIds: created });
+    }
+    history.push({ label, changes });
+  };
+
+  const recordRelationChange = (label: string, type: 'relationAdd' | 'relationRemove', members: TObject[]) => {
+    if (!relationQuery) return;
+    history.push({
+      label,
+      changes: [{ type, ...relationQuery, target: className, memberIds: _.compact(_.map(members, m => m.id)) }],
+    });
+  };
+
   const {
     handleUpdateItem,
     handleDeleteItems,
     handleDeleteKeys,
     handlePasteData,
+    handleCommitStaged,
+    handleDiscardStaged,
+    handleUndo,
+    handleRedo,
   } = _useCallbacks({
     handleUpdateItem: (item: TObject, columnKey: string, value: any) => {
       startActivity(async () => {
@@ -370,41 +797,18 @@ export const BrowserPage = () => {
           const isNewItem = !item.id;
           const isUserPassword = className === 'User' && columnKey === 'password';
 
-          // Handle file upload - check if value is a browser File object
+          // Handle file upload - check if value is a browser File object,
+          // the file is uploaded when the object is saved (or the staged edit committed)
           if (value instanceof File) {
-            // Upload the file to proto.io
-            const protoFile = proto.File(value.name, value);
-            await protoFile.save({ master: true });
-            cloned.set(columnKey, protoFile);
-          } else if (isUserPassword && isNewItem) {
-            // For new User objects with password: save first, then set password
-            await cloned.save({ master: true });
-            await proto.setPassword(cloned, value, { master: true });
-            // Update in relation if needed
-            if (relationQuery && canEditInRelationMode) {
-              const parentObj = proto.Object(relationQuery.className, relationQuery.objectId);
-              parentObj.addToSet(relationQuery.field, [cloned]);
-              await parentObj.save({ master: true });
-            }
-            setResource((prev) => {
-              const prevItems = prev?.items ?? [];
-              const newItems = [...prevItems, cloned];
-              return {
-                className,
-                items: newItems,
-                count: prev?.count ?? newItems.length,
-              };
-            });
-            alert.showSuccess(`Object ${cloned.id} created successfully`);
-            return; // Early return - already saved
-          } else if (isUserPassword) {
-            // For existing User objects: use proto.setPassword
-            await proto.setPassword(cloned, value, { master: true });
-          } else {
+            cloned.set(columnKey, proto.File(value.name, value));
+          } else if (!isUserPassword) {
             cloned.set(columnKey, value);
           }
-          await performSaves([cloned]);
-          alert.showSuccess(`Object ${cloned.id} ${isNewItem ? 'created' : 'updated'} successfully`);
+          // User passwords are set through proto.setPassword when the object is saved
+          const isStaged = await performSaves(`Edit ${columnKey}`, [isUserPassword
+            ? { original: item, saved: cloned, keys: [], password: value }
+            : { original: item, saved: cloned, keys: [columnKey] }]);
+          if (!isStaged) alert.showSuccess(`Object ${cloned.id} ${isNewItem ? 'created' : 'updated'} successfully`);
         } catch (error) {
           console.error('Failed to update item:', error);
           alert.showError(error instanceof Error ? error.message : 'Failed to update item');
@@ -419,10 +823,12 @@ export const BrowserPage = () => {
             const parentObj = proto.Object(relationQuery.className, relationQuery.objectId);
             parentObj.removeAll(relationQuery.field, items);
             await parentObj.save({ master: true });
+            recordRelationChange(`Remove ${items.length} object(s) from relation`, 'relationRemove', items);
             setResource((prev) => {
               const prevItems = prev?.items ?? [];
               const newItems = _.filter(prevItems, i => !items.includes(i));
               return {
+                ...prev,
                 className,
                 items: newItems,
                 count: Math.max(0, (prev?.count ?? 0) - items.length),
@@ -430,12 +836,24 @@ export const BrowserPage = () => {
             });
             alert.showSuccess(`${items.length} object(s) removed from relation successfully`);
           } else {
-            // Regular delete
-            await Promise.all(items.map(item => item.destroy({ master: true })));
+            // Regular delete, staged objects that were never saved are only dropped locally
+            await Promise.all(_.filter(items, item => !_.isNil(item.id)).map(item => item.destroy({ master: true })));
+            setStaged(prev => _.filter(prev, c => !items.includes(c.current)));
+            const writableKeys = _.difference(_.keys(schema?.fields), readonlyKeys);
+            history.push({
+              label: `Delete ${items.length} object(s)`,
+              changes: _.compact(_.map(items, item => item.id ? {
+                type: 'delete' as const,
+                className,
+                objectId: item.id,
+                attributes: snapshotObject(item, writableKeys),
+              } : undefined)),
+            });
             setResource((prev) => {
               const prevItems = prev?.items ?? [];
               const newItems = _.filter(prevItems, i => !items.includes(i));
               return {
+                ...prev,
                 className,
                 items: newItems,
                 count: Math.max(0, (prev?.count ?? 0) - items.length),
@@ -458,8 +876,8 @@ export const BrowserPage = () => {
             keys.forEach(key => cloned.set(key, null));
             updates.push(cloned);
           }
-          await performSaves(updates);
-          alert.showSuccess(`${keys.length} field(s) cleared in ${updates.length} object(s)`);
+          const isStaged = await performSaves(`Clear ${keys.length} field(s)`, _.map(updates, (saved, i) => ({ original: item[i], saved, keys })));
+          alert.showSuccess(`${keys.length} field(s) ${isStaged ? 'staged for clearing' : 'cleared'} in ${updates.length} object(s)`);
         } catch (error) {
           console.error('Failed to delete fields:', error);
           alert.showError(error instanceof Error ? error.message : 'Failed to delete fields');
@@ -496,7 +914,9 @@ export const BrowserPage = () => {
           const parentObj = proto.Object(relationQuery.className, relationQuery.objectId);
           parentObj.addToSet(relationQuery.field, objectsToAdd);
           await parentObj.save({ master: true });
+          recordRelationChange(`Add ${objectsToAdd.length} object(s) to relation`, 'relationAdd', objectsToAdd);
           setResource((prev) => ({
+            ...prev,
             className,
             items: [...(prev?.items ?? []), ...objectsToAdd],
             count: (prev?.items ?? []).length + objectsToAdd.length,
@@ -508,7 +928,7 @@ export const BrowserPage = () => {
       }
 
       const updates: TObject[] = [];
-      const pendingPasswords: Array<{ obj: TObject; password: any }> = [];
+      const saves: SaveEntry[] = [];
 
       const lastRow = _.last(rows) ?? -1;
       const hasEmptyRow = lastRow >= items.length;
@@ -519,18 +939,19 @@ export const BrowserPage = () => {
         const obj = row < items.length ? items[row].clone() : proto.Object(className);
         if (!obj || !values) continue;
 
-        let hasNonPasswordChanges = false;
+        let password: string | undefined;
+        const changedKeys: string[] = [];
 
         if (!_.isArray(values)) {
           for (const [column, value] of _.toPairs(values)) {
             const baseField = column.split('.')[0];
             if (!_.includes(readonlyKeys, baseField)) {
               if (className === 'User' && column === 'password') {
-                // Save password for later - must be set after other fields are saved
-                pendingPasswords.push({ obj, password: value });
+                // Passwords are set after the other fields are saved
+                password = value;
               } else {
                 await obj.set(column, value);
-                hasNonPasswordChanges = true;
+                changedKeys.push(column);
               }
             }
           }
@@ -539,35 +960,73 @@ export const BrowserPage = () => {
             if (column && !_.includes(readonlyKeys, column.baseField)) {
               if (_.isNil(value) || (_.isEmpty(value) && column.fieldType !== 'string')) {
                 obj.set(column.key, null);
-                hasNonPasswordChanges = true;
+                changedKeys.push(column.key);
               } else if (_.isString(value)) {
-                const decoded = await decodeRawValue(_typeOf(column.fieldType) ?? '', value);
+                const decoded = await decodeRawValue(proto, column.fieldType, value);
                 if (className === 'User' && column.key === 'password') {
-                  // Save password for later - must be set after other fields are saved
-                  pendingPasswords.push({ obj, password: decoded });
+                  // Passwords are set after the other fields are saved
+                  password = decoded;
                 } else {
                   obj.set(column.key, decoded);
-                  hasNonPasswordChanges = true;
+                  changedKeys.push(column.key);
                 }
               }
             }
           }
         }
 
-        // Only add to updates if there are non-password changes
-        if (hasNonPasswordChanges || pendingPasswords.some(p => p.obj === obj)) {
+        if (!_.isEmpty(changedKeys) || !_.isNil(password)) {
           updates.push(obj);
+          saves.push({ original: row < items.length ? items[row] : undefined, saved: obj, keys: changedKeys, password });
         }
       }
 
-      if (!_.isEmpty(updates)) {
-        await performSaves(updates);
-      }
-      // Now set passwords for User objects (after other fields are saved)
-      for (const { obj, password } of pendingPasswords) {
-        await proto.setPassword(obj, password, { master: true });
-      }
-      alert.showSuccess(`${updates.length} object(s) updated successfully`);
+      const isStaged = !_.isEmpty(saves) && await performSaves(`Paste ${updates.length} object(s)`, saves);
+      alert.showSuccess(`${updates.length} object(s) ${isStaged ? 'staged' : 'updated successfully'}`);
+    },
+    handleCommitStaged: () => {
+      startActivity(async () => {
+        try {
+          const saves = _.map(staged, c => ({ original: c.original, saved: c.current, keys: c.keys, password: c.password }));
+          await saveObjects(`Commit ${saves.length} staged object(s)`, saves);
+          setStaged([]);
+          setShowReview(undefined);
+          alert.showSuccess(`${saves.length} object(s) saved successfully`);
+        } catch (error) {
+          console.error('Failed to commit changes:', error);
+          alert.showError(error instanceof Error ? error.message : 'Failed to commit changes');
+        }
+      });
+    },
+    handleDiscardStaged: () => {
+      setStaged([]);
+      setShowReview(undefined);
+    },
+    handleUndo: () => {
+      if (!history.canUndo) return;
+      startActivity(async () => {
+        try {
+          const entry = await history.undo();
+          if (entry) alert.showSuccess(`Undo: ${entry.label}`);
+        } catch (error) {
+          console.error('Failed to undo:', error);
+          alert.showError(error instanceof Error ? error.message : 'Failed to undo');
+        }
+        refresh();
+      });
+    },
+    handleRedo: () => {
+      if (!history.canRedo) return;
+      startActivity(async () => {
+        try {
+          const entry = await history.redo();
+          if (entry) alert.showSuccess(`Redo: ${entry.label}`);
+        } catch (error) {
+          console.error('Failed to redo:', error);
+          alert.showError(error instanceof Error ? error.message : 'Failed to redo');
+        }
+        refresh();
+      });
     },
   });
 
@@ -616,9 +1075,167 @@ export const BrowserPage = () => {
               {count} {count === 1 ? 'record' : 'records'}
               {relationQuery && ` • Related to ${relationQuery.className}#${relationQuery.objectId}.${relationQuery.field}`}
               {!relationQuery && filter.length > 0 && ` • ${filter.length} ${filter.length === 1 ? 'filter' : 'filters'} active`}
+              {search.text && ` • Matching "${search.text}"`}
             </div>
           </div>
           <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <QuickSearch
+              columns={expandedColumns}
+              text={search.text}
+              fields={search.fields}
+              onChange={updateSearch}
+            />
+            {!relationQuery && (
+              <>
+                <select
+                  value={currentView?.name ?? ''}
+                  onChange={(e) => applyView(_.find(savedViews.views, v => v.name === e.currentTarget.value))}
+                  style={{
+                    padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+                    fontSize: theme.fontSize.sm,
+                    borderRadius: theme.borderRadius.md,
+                    border: `1px solid ${theme.colors['primary-300']}`,
+                    backgroundColor: '#ffffff',
+                    color: theme.colorContrast('#ffffff'),
+                  }}
+                >
+                  <option value="">Default view</option>
+                  {_.map(savedViews.views, v => (
+                    <option key={`${v.storage}:${v.name}`} value={v.name}>
+                      {v.name}{v.storage === 'config' ? ' (shared)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  color="primary"
+                  size="sm"
+                  onClick={() => setShowSaveView(Date.now())}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                    <Icon name="plus" size="sm" />
+                    <span>Save view</span>
+                  </div>
+                </Button>
+                {currentView && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      color="primary"
+                      size="sm"
+                      title="Copy link to this view"
+                      onClick={handleCopyViewLink}
+                    >
+                      <Icon name="link" size="sm" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      color="error"
+                      size="sm"
+                      title="Delete this view"
+                      onClick={() => handleDeleteView(currentView)}
+                    >
+                      <Icon name="trash" size="sm" />
+                    </Button>
+                  </>
+                )}
+              </>
+            )}
+            {!_.isEmpty(staged) && (
+              <Button
+                variant="solid"
+                color="warning"
+                size="sm"
+                onClick={() => setShowReview(Date.now())}
+              >
+                Review changes ({staged.length})
+              </Button>
+            )}
+            <Button
+              variant={stagedMode ? 'solid' : 'outline'}
+              color="primary"
+              size="sm"
+              onClick={() => {
+                if (stagedMode && !_.isEmpty(staged)) {
+                  setShowReview(Date.now());
+                } else {
+                  setStagedMode(!stagedMode);
+                }
+              }}
+            >
+              Staged edits {stagedMode ? 'on' : 'off'}
+            </Button>
+            {schema && !_.isEmpty(vectorIndexes(schema)) && (
+              <Button
+                variant="outline"
+                color="primary"
+                size="sm"
+                onClick={handleFindSimilar}
+              >
+                Similar
+              </Button>
+            )}
+            <Button
+              variant={pivotMode ? 'solid' : 'outline'}
+              color="primary"
+              size="sm"
+              onClick={() => setPivotMode(!pivotMode)}
+            >
+              Pivot {pivotMode ? 'on' : 'off'}
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={() => setShowChart(Date.now())}
+            >
+              Chart
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={handleEditPermissions}
+            >
+              Permissions
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={handleOpenFindReplace}
+            >
+              Replace
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={handleOpenDuplicate}
+            >
+              Duplicate
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={() => setShowBulkUpdate(Date.now())}
+            >
+              Set all matching
+            </Button>
+            {!relationQuery && (
+              <Button
+                variant="outline"
+                color="error"
+                size="sm"
+                onClick={() => setShowDeleteMatching(Date.now())}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                  <Icon name="trash" size="sm" />
+                  <span>Delete all matching</span>
+                </div>
+              </Button>
+            )}
             <Button
               variant="outline"
               color="primary"
@@ -651,6 +1268,51 @@ export const BrowserPage = () => {
                 <span>Columns {hiddenColumns.size > 0 && `(${expandedColumns.length - hiddenColumns.size}/${expandedColumns.length})`}</span>
               </div>
             </Button>
+            <Button
+              variant={_.isEmpty(sort) ? 'outline' : 'solid'}
+              color="primary"
+              size="sm"
+              onClick={() => setShowSortEditor(Date.now())}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="sortAsc" size="sm" />
+                <span>Sort {!_.isEmpty(sort) && `(${_.size(sort)})`}</span>
+              </div>
+            </Button>
+            <Button
+              variant={_.isEmpty(formatRules) ? 'outline' : 'solid'}
+              color="primary"
+              size="sm"
+              onClick={() => setShowFormatRules(Date.now())}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <span>Formatting {!_.isEmpty(formatRules) && `(${formatRules.length})`}</span>
+              </div>
+            </Button>
+            {!relationQuery && (
+              <Button
+                variant="outline"
+                color="primary"
+                size="sm"
+                onClick={() => setShowImport(Date.now())}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                  <Icon name="upload" size="sm" />
+                  <span>Import</span>
+                </div>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={() => setShowExport(Date.now())}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="download" size="sm" />
+                <span>Export</span>
+              </div>
+            </Button>
           </div>
         </div>
       </div>
@@ -663,20 +1325,145 @@ export const BrowserPage = () => {
           onCancel={() => setShowFilterModal(undefined)}
         />
       )}
+      {columnStats && (
+        <ColumnStatsPopover
+          key={columnStats.key}
+          query={query}
+          column={columnStats.column}
+          top={columnStats.top}
+          left={columnStats.left}
+          onFilter={relationQuery ? undefined : (f) => {
+            updateFilter([...filter, f]);
+            setColumnStats(undefined);
+          }}
+          onClose={() => setColumnStats(undefined)}
+        />
+      )}
+      {duplicate && schema && (
+        <DuplicateModal
+          key={duplicate.key}
+          className={className}
+          schema={schema}
+          objects={duplicate.objects}
+          onApply={handleDuplicate}
+          onCancel={() => setDuplicate(undefined)}
+        />
+      )}
+      {showDeleteMatching && (
+        <DeleteMatchingModal
+          key={showDeleteMatching}
+          className={className}
+          query={query}
+          onDone={(deleted) => {
+            setShowDeleteMatching(undefined);
+            if (deleted > 0) refresh();
+          }}
+          onCancel={() => setShowDeleteMatching(undefined)}
+        />
+      )}
+      {showBulkUpdate && (
+        <BulkUpdateModal
+          key={showBulkUpdate}
+          className={className}
+          columns={_.filter(expandedColumns, col => !_.includes(readonlyKeys, col.baseField))}
+          query={query}
+          onDone={(updated) => {
+            setShowBulkUpdate(undefined);
+            if (updated > 0) refresh();
+          }}
+          onCancel={() => setShowBulkUpdate(undefined)}
+        />
+      )}
+      {findReplace && (
+        <FindReplaceModal
+          key={findReplace.key}
+          className={className}
+          columns={_.filter(expandedColumns, col => !_.includes(readonlyKeys, col.baseField))}
+          selection={findReplace.selection}
+          pageObjects={items}
+          query={query}
+          onApply={handleReplace}
+          onCancel={() => setFindReplace(undefined)}
+        />
+      )}
+      {showChart && schema && (
+        <ChartModal
+          key={showChart}
+          className={className}
+          query={query}
+          columns={expandedColumns}
+          params={relationQuery ? undefined : viewParamsFrom(searchParams)}
+          onCancel={() => setShowChart(undefined)}
+        />
+      )}
+      {nearest && schema && (
+        <NearestNeighborModal
+          key={nearest.key}
+          className={className}
+          schema={schema}
+          source={nearest.source}
+          onCancel={() => setNearest(undefined)}
+        />
+      )}
+      {aclObjects && (
+        <AclEditorModal
+          key={aclObjects.key}
+          objects={aclObjects.objects}
+          onSave={handleSaveAcl}
+          onCancel={() => setAclObjects(undefined)}
+        />
+      )}
+      {showSaveView && (
+        <SaveViewModal
+          key={showSaveView}
+          views={savedViews.views}
+          initialName={currentView?.name}
+          initialStorage={currentView?.storage}
+          onSave={handleSaveView}
+          onCancel={() => setShowSaveView(undefined)}
+        />
+      )}
       {showColumnSettings && (
         <ColumnSettingsModal
           key={showColumnSettings}
           columns={expandedColumns}
           columnOrder={columnOrder}
           hiddenColumns={hiddenColumns}
-          onApply={(order, hidden) => {
+          columnPins={columnPins}
+          onApply={(order, hidden, pins) => {
             setColumnOrder(order);
             setHiddenColumns(hidden);
+            setColumnPins(pins);
             setShowColumnSettings(undefined);
           }}
           onCancel={() => setShowColumnSettings(undefined)}
         />
       )}
+      {showSortEditor && (
+        <SortEditorModal
+          key={showSortEditor}
+          columns={expandedColumns}
+          sort={sort}
+          onApply={(newSort) => {
+            updateSort(newSort);
+            setShowSortEditor(undefined);
+          }}
+          onCancel={() => setShowSortEditor(undefined)}
+        />
+      )}
+      {showFormatRules && (
+        <FormatRulesModal
+          key={showFormatRules}
+          className={className}
+          columns={expandedColumns}
+          rules={formatRules}
+          onApply={(rules) => {
+            setFormatRules(rules);
+            setShowFormatRules(undefined);
+          }}
+          onCancel={() => setShowFormatRules(undefined)}
+        />
+      )}
       {showSchemaInfo && schema && (
         <SchemaInfoModal
           key={showSchemaInfo}
@@ -685,6 +1472,36 @@ export const BrowserPage = () => {
           onCancel={() => setShowSchemaInfo(undefined)}
         />
       )}
+      {showExport && (
+        <ExportModal
+          key={showExport}
+          className={className}
+          query={query.clone().includes(...includesForColumns(visibleColumns))}
+          sort={sort}
+          count={count}
+          columns={visibleColumns}
+          onCancel={() => setShowExport(undefined)}
+        />
+      )}
+      {showImport && schema && (
+        <ImportModal
+          key={showImport}
+          schema={schema}
+          className={className}
+          onComplete={refresh}
+          onCancel={() => setShowImport(undefined)}
+        />
+      )}
+      {showReview && (
+        <ReviewChangesModal
+          key={showReview}
+          className={className}
+          changes={staged}
+          onCommit={handleCommitStaged}
+          onDiscard={handleDiscardStaged}
+          onCancel={() => setShowReview(undefined)}
+        />
+      )}
       {dangerConfirm && (
         <DangerConfirmModal
           key={dangerConfirm.key}
@@ -705,8 +1522,19 @@ export const BrowserPage = () => {
             overflow: 'auto',
           }}
         >
-          {schema && <DataSheet
+          {schema && pivotMode && <PivotView
+            key={className}
+            query={query}
+            count={count}
+            columns={expandedColumns}
+            onDrillDown={relationQuery ? undefined : (filters) => {
+              updateFilter([...filter, ...filters]);
+              setPivotMode(false);
+            }}
+          />}
+          {schema && !pivotMode && <DataSheet
             key={className}
+            ref={(ref) => { sheetRef.current = ref; }}
             data={items}
             columns={visibleColumns.map(col => ({
               key: col.key,
@@ -719,8 +1547,8 @@ export const BrowserPage = () => {
                     userSelect: 'none',
                   }}
                   onClick={(e) => {
-                    // Only allow sorting by base field (not nested properties)
-                    const sortKey = col.baseField;
+                    // Shape columns sort by their dotted path
+                    const sortKey = col.key;
                     updateSort({
                       ...e.shiftKey ? _.omit(sort, sortKey) : {},
                       [sortKey]: sort[sortKey] === 1 ? -1 : 1,
@@ -734,18 +1562,50 @@ export const BrowserPage = () => {
                     paddingLeft: theme.spacing.xs,
                   }}>({typeOf(col.fieldType)})</span>
                   <span style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center' }}>
-                    {sort[col.baseField] === 1 ? (
+                    {sort[col.key] === 1 ? (
                       <Icon name="sortAsc" size="md" />
-                    ) : sort[col.baseField] === -1 ? (
+                    ) : sort[col.key] === -1 ? (
                       <Icon name="sortDesc" size="md" />
                     ) : null}
+                    {_.size(sort) > 1 && _.has(sort, col.key) && (
+                      <span style={{ fontSize: theme.fontSize.xs, opacity: 0.6 }}>{_.indexOf(_.keys(sort), col.key) + 1}</span>
+                    )}
                   </span>
+                  <button
+                    title="Column statistics"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      setColumnStats({ key: Date.now(), column: col, top: rect.bottom + 4, left: rect.left });
+                    }}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      padding: 0,
+                      marginLeft: theme.spacing.xs,
+                      display: 'flex',
+                      alignItems: 'center',
+                      color: 'inherit',
+                      opacity: 0.5,
+                      '&:hover': {
+                        opacity: 1,
+                      },
+                    }}
+                  >
+                    <Icon name="info" size="sm" />
+                  </button>
                 </div>
               ),
             }))}
             showEmptyLastRow={true}
             columnWidth={visibleColumns.map(col => columnWidth[col.key] || 150)}
             startRowNumber={offset + 1}
+            pinnedColumns={_.filter(visibleColumns, col => columnPins[col.key] === 'left').length}
+            pinnedTrailingColumns={_.filter(visibleColumns, col => columnPins[col.key] === 'right').length}
+            virtualized={true}
+            onEndReached={paging === 'infinite' ? handleLoadMore : undefined}
             allowEditForCell={(row, col) => {
               const column = visibleColumns[col];
               if (!column) return false;
@@ -769,6 +1629,36 @@ export const BrowserPage = () => {
                 setColumnWidth(prev => ({ ...prev, [column.key]: width }));
               }
             }}
+            renderRowNumber={({ item, rowNumber }) => (
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.xs }}>
+                <span style={{ fontFamily: 'monospace' }}>{rowNumber}</span>
+                {item?.id && (
+                  <button
+                    title="Open object"
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      padding: 0,
+                      color: theme.colors.primary,
+                      display: 'flex',
+                      alignItems: 'center',
+                      opacity: 0.6,
+                      '&:hover': {
+                        opacity: 1,
+                      },
+                    }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      navigate(`/classes/${className}/${encodeURIComponent(item.id!)}`);
+                    }}
+                  >
+                    <Icon name="link" size="sm" />
+                  </button>
+                )}
+              </div>
+            )}
             renderItem={({ item, columnKey, isEditing }) => (
               <TableCell
                 item={item}
@@ -776,6 +1666,8 @@ export const BrowserPage = () => {
                 schema={schema}
                 className={className}
                 isEditing={isEditing}
+                isDirty={_.some(staged, c => c.current === item && (!c.original || c.keys.includes(columnKey) || (columnKey === 'password' && !_.isNil(c.password))))}
+                formatRules={_.filter(formatRules, rule => rule.field === columnKey)}
                 editingValue={editingValue}
                 setEditingValue={setEditingValue}
               />
@@ -806,12 +1698,14 @@ export const BrowserPage = () => {
                         const parentObj = proto.Object(relationQuery.className, relationQuery.objectId);
                         parentObj.addToSet(relationQuery.field, [obj]);
                         await parentObj.save({ master: true });
+                        recordRelationChange(`Add object ${obj.id} to relation`, 'relationAdd', [obj]);
 
                         // Update local state
                         setResource((prev) => {
                           const prevItems = prev?.items ?? [];
                           const newItems = [...prevItems, obj];
                           return {
+                            ...prev,
                             className,
                             items: newItems,
                             count: newItems.length,
@@ -840,6 +1734,7 @@ export const BrowserPage = () => {
 
               setEditingValue(undefined);
             }}
+            onCancelEditing={() => setEditingValue(undefined)}
             onPasteRows={(rows, clipboard) => {
               const existingCount = rows.filter(r => r < items.length).length;
               const doPaste = () => {
@@ -896,6 +1791,42 @@ export const BrowserPage = () => {
                 doPaste();
               }
             }}
+            onFillCells={(source, target) => {
+              startActivity(async () => {
+                try {
+                  const filled = await fillValues(source, target);
+                  const rows = _.map(filled, ([row]) => row);
+                  const cols = _.range(target.start.col, target.end.col + 1).map(c => visibleColumns[c]).filter(Boolean);
+                  const existingCount = rows.filter(r => r < items.length).length;
+                  const doFill = () => {
+                    startActivity(async () => {
+                      try {
+                        await handlePasteData(rows, cols, _.map(filled, ([, values]) => values));
+                      } catch (error) {
+                        console.error('Failed to fill cells:', error);
+                        alert.showError(error instanceof Error ? error.message : 'Failed to fill cells');
+                      }
+                    });
+                  };
+                  if (_.isEmpty(rows)) return;
+                  if (existingCount > DANGER_ROW_THRESHOLD) {
+                    requestDangerConfirm(
+                      `Overwrite ${existingCount} rows`,
+                      `You are about to fill ${cols.length} field${cols.length === 1 ? '' : 's'} in ${existingCount} existing rows of "${className}". The original values will be replaced with the filled values.`,
+                      () => {
+                        setDangerConfirm(undefined);
+                        doFill();
+                      },
+                    );
+                  } else {
+                    doFill();
+                  }
+                } catch (error) {
+                  console.error('Failed to fill cells:', error);
+                  alert.showError(error instanceof Error ? error.message : 'Failed to fill cells');
+                }
+              });
+            }}
             onDeleteRows={(rows) => {
               const selectedItems = _.compact(_.map(rows, row => items[row]));
               if (_.isEmpty(selectedItems)) return;
@@ -938,107 +1869,176 @@ export const BrowserPage = () => {
                 handleDeleteKeys(selectedItems, editableCols);
               }
             }}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
           />}
         </div>
       </div>
-      <div style={{
-        padding: `${theme.spacing.md}px ${theme.spacing.xl}px`,
-        borderTop: `1px solid ${theme.colors['primary-200']}`,
-        backgroundColor: theme.colors['primary-100'],
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'space-between',
-      }}>
-        <div style={{
-          fontSize: theme.fontSize.sm,
-          color: theme.colorContrast(theme.colors['primary-100']),
-        }}>
-          Showing {Math.min(offset + 1, count)} - {Math.min(offset + limit, count)} of {count}
-        </div>
+      {!pivotMode && (
         <div style={{
+          padding: `${theme.spacing.md}px ${theme.spacing.xl}px`,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          backgroundColor: theme.colors['primary-100'],
           display: 'flex',
-          gap: theme.spacing.xs,
           alignItems: 'center',
+          justifyContent: 'space-between',
         }}>
-          <Button
-            variant="ghost"
-            color="primary"
-            size="sm"
-            onClick={() => updateOffset(0)}
-            disabled={offset === 0}
-          >
-            <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-              <Icon name="chevronDoubleLeft" size="xs" />
-              <span>First</span>
-            </div>
-          </Button>
-          <Button
-            variant="ghost"
-            color="primary"
-            size="sm"
-            onClick={() => updateOffset(Math.max(0, offset - limit))}
-            disabled={offset === 0}
-          >
-            <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-              <Icon name="chevronLeft" size="xs" />
-              <span>Prev</span>
-            </div>
-          </Button>
           <div style={{
-            padding: `0 ${theme.spacing.sm}px`,
             fontSize: theme.fontSize.sm,
             color: theme.colorContrast(theme.colors['primary-100']),
           }}>
-            Page {Math.floor(offset / limit) + 1} of {Math.max(1, Math.ceil(count / limit))}
+            {paging === 'infinite' ? `Loaded ${Math.min(loadedItems.length, count)} of ${count}`
+              : paging === 'cursor' ? `Showing ${loadedItems.length} of ${count}`
+                : `Showing ${Math.min(offset + 1, count)} - ${Math.min(offset + limit, count)} of ${count}`}
+          </div>
+          <div style={{
+            display: 'flex',
+            gap: theme.spacing.xs,
+            alignItems: 'center',
+          }}>
+            {paging === 'cursor' && (
+              <>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => updateCursor()}
+                  disabled={!hasPrev}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <Icon name="chevronDoubleLeft" size="xs" />
+                    <span>First</span>
+                  </div>
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => loadedItems[0] && updateCursor('before', encodeCursor(loadedItems[0], sort))}
+                  disabled={!hasPrev || _.isEmpty(loadedItems)}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <Icon name="chevronLeft" size="xs" />
+                    <span>Prev</span>
+                  </div>
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => {
+                    const last = _.last(loadedItems);
+                    if (last) updateCursor('after', encodeCursor(last, sort));
+                  }}
+                  disabled={!hasNext || _.isEmpty(loadedItems)}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span>Next</span>
+                    <Icon name="chevronRight" size="xs" />
+                  </div>
+                </Button>
+              </>
+            )}
+            {paging === 'offset' && (
+              <>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => updateOffset(0)}
+                  disabled={offset === 0}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <Icon name="chevronDoubleLeft" size="xs" />
+                    <span>First</span>
+                  </div>
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => updateOffset(Math.max(0, offset - limit))}
+                  disabled={offset === 0}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <Icon name="chevronLeft" size="xs" />
+                    <span>Prev</span>
+                  </div>
+                </Button>
+                <div style={{
+                  padding: `0 ${theme.spacing.sm}px`,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.colorContrast(theme.colors['primary-100']),
+                }}>
+                  Page {Math.floor(offset / limit) + 1} of {Math.max(1, Math.ceil(count / limit))}
+                </div>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => updateOffset(offset + limit)}
+                  disabled={offset + limit >= count}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span>Next</span>
+                    <Icon name="chevronRight" size="xs" />
+                  </div>
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="primary"
+                  size="sm"
+                  onClick={() => updateOffset(Math.floor((count - 1) / limit) * limit)}
+                  disabled={offset + limit >= count}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span>Last</span>
+                    <Icon name="chevronDoubleRight" size="xs" />
+                  </div>
+                </Button>
+              </>
+            )}
+            <select
+              value={`${limit}`}
+              onChange={(e) => {
+                const newLimit = parseInt(e.currentTarget.value);
+                updateLimit(newLimit);
+              }}
+              style={{
+                marginLeft: theme.spacing.md,
+                padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+                fontSize: theme.fontSize.sm,
+                borderRadius: theme.borderRadius.md,
+                border: `1px solid ${theme.colors['primary-300']}`,
+                backgroundColor: '#ffffff',
+                color: theme.colorContrast('#ffffff'),
+              }}
+            >
+              <option value="10">10 / page</option>
+              <option value="20">20 / page</option>
+              <option value="50">50 / page</option>
+              <option value="100">100 / page</option>
+              <option value="200">200 / page</option>
+            </select>
+            <select
+              value={paging}
+              onChange={(e) => updatePaging(e.currentTarget.value as PagingMode)}
+              style={{
+                padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+                fontSize: theme.fontSize.sm,
+                borderRadius: theme.borderRadius.md,
+                border: `1px solid ${theme.colors['primary-300']}`,
+                backgroundColor: '#ffffff',
+                color: theme.colorContrast('#ffffff'),
+              }}
+            >
+              <option value="offset">Pages</option>
+              <option value="cursor">Cursor</option>
+              <option value="infinite">Infinite scroll</option>
+            </select>
           </div>
-          <Button
-            variant="ghost"
-            color="primary"
-            size="sm"
-            onClick={() => updateOffset(offset + limit)}
-            disabled={offset + limit >= count}
-          >
-            <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-              <span>Next</span>
-              <Icon name="chevronRight" size="xs" />
-            </div>
-          </Button>
-          <Button
-            variant="ghost"
-            color="primary"
-            size="sm"
-            onClick={() => updateOffset(Math.floor((count - 1) / limit) * limit)}
-            disabled={offset + limit >= count}
-          >
-            <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-              <span>Last</span>
-              <Icon name="chevronDoubleRight" size="xs" />
-            </div>
-          </Button>
-          <select
-            value={`${limit}`}
-            onChange={(e) => {
-              const newLimit = parseInt(e.currentTarget.value);
-              updateLimit(newLimit);
-            }}
-            style={{
-              marginLeft: theme.spacing.md,
-              padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
-              fontSize: theme.fontSize.sm,
-              borderRadius: theme.borderRadius.md,
-              border: `1px solid ${theme.colors['primary-300']}`,
-              backgroundColor: '#ffffff',
-              color: theme.colorContrast('#ffffff'),
-            }}
-          >
-            <option value="10">10 / page</option>
-            <option value="20">20 / page</option>
-            <option value="50">50 / page</option>
-            <option value="100">100 / page</option>
-            <option value="200">200 / page</option>
-          </select>
         </div>
-      </div>
+      )}
     </div>
   );
 };
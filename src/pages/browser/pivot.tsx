@@ -0,0 +1,450 @@
+//
+//  pivot.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useEffect, useRef, useState } from 'frosty';
+import { Decimal } from 'proto.io';
+import { QueryFilter, TQuery, TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { DataSheet } from '../../components/datasheet';
+import { encodeValue, fieldBounds, sampleValues } from './utils';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+type Aggregate = {
+  fn: AggregateFunction;
+  field?: string;
+};
+
+type PivotRow = {
+  keys: any[];
+  count: number;
+  values: (number | undefined)[];
+  // Aggregates computed from only part of the group
+  partial: boolean[];
+};
+
+// Groups are enumerated one query each, larger pivots are cut off
+const MAX_PIVOT_GROUPS = 200;
+
+// Objects read per group to compute sum and avg, larger groups give partial results
+const PIVOT_SCAN_LIMIT = 5000;
+
+const aggregateFunctions: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+// Fields that can be grouped by, their values have to be sortable on the server
+const groupableColumns = (columns: Column[]) => _.filter(columns, col => !_.includes(['relation', 'object', 'array', 'vector'], typeOf(col.fieldType)));
+const numericColumns = (columns: Column[]) => _.filter(columns, col => _.includes(['number', 'decimal'], typeOf(col.fieldType)));
+
+const toNumber = (value: any) => {
+  if (value instanceof Decimal) return value.toNumber();
+  return _.isNumber(value) && _.isFinite(value) ? value : undefined;
+};
+
+const isPointer = (value: any) => _.isFunction(value?.fetch) && !_.isNil(value?.id);
+
+// Filter for the objects of a group, pointers are compared by id
+const groupFilter = (key: string, value: any): QueryFilter => isPointer(value)
+  ? { [`${key}._id`]: { $eq: value.id } }
+  : { [key]: { $eq: value ?? null } };
+
+// Distinct values of the field in sort order, each one found with a single sorted query
+const distinctValues = async (query: TQuery, column: Column, limit: number, signal: AbortSignal) => {
+  const path = typeOf(column.fieldType) === 'pointer' || typeOf(column.fieldType) === 'file' ? `${column.key}._id` : column.key;
+  const values: any[] = [];
+  if (await query.clone().filter({ [column.key]: { $eq: null } }).exists({ master: true, abortSignal: signal })) values.push(null);
+  let last: any = null;
+  while (values.length < limit) {
+    const obj = await query.clone()
+      .includes(column.key)
+      .filter({ [path]: _.isNil(last) ? { $ne: null } : { $gt: last } })
+      .sort({ [path]: 1 })
+      .first({ master: true, abortSignal: signal });
+    if (!obj) return { values, complete: true };
+    const value = obj.get(column.key);
+    values.push(value);
+    last = isPointer(value) ? value.id : value;
+  }
+  return { values, complete: false };
+};
+
+const groupLabelOf = (value: any) => {
+  if (_.isNil(value)) return '(null)';
+  if (_.isString(value)) return value;
+  if (_.isDate(value)) return value.toLocaleString();
+  if (_.isFunction(value?.fetch)) return value.filename ?? value.id;
+  return encodeValue(value, 0);
+};
+
+const aggregateLabel = ({ fn, field }: Aggregate) => fn === 'count' ? 'count' : `${fn}(${field})`;
+
+// Compute an aggregate of the objects matched by the group query, count, min and max
+// run on the server while sum and avg read the field of at most PIVOT_SCAN_LIMIT objects
+const aggregateGroup = async (query: TQuery, count: number, { fn, field }: Aggregate, signal: AbortSignal) => {
+  if (fn === 'count' || !field) return { value: count, partial: false };
+  if (fn === 'min' || fn === 'max') {
+    const bounds = await fieldBounds(query, field, signal);
+    return { value: bounds ? toNumber(bounds[fn === 'min' ? 0 : 1]) : undefined, partial: false };
+  }
+  const { values, complete } = await sampleValues(query.clone().filter({ [field]: { $ne: null } }), field, PIVOT_SCAN_LIMIT, signal);
+  const numbers = _.filter(_.map(values, toNumber), v => !_.isNil(v)) as number[];
+  const sum = _.sum(numbers);
+  return {
+    value: fn === 'sum' ? sum : _.isEmpty(numbers) ? undefined : sum / numbers.length,
+    partial: !complete,
+  };
+};
+
+const selectStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type PivotViewProps = {
+  query: TQuery;
+  count: number;
+  columns: Column[];
+  // Not available in relation mode, where filters are not applied
+  onDrillDown?: (filters: QueryFilter[]) => void;
+};
+
+export const PivotView = ({ query, count, columns, onDrillDown }: PivotViewProps) => {
+  const theme = useTheme();
+  const groupable = groupableColumns(columns);
+  const numeric = numericColumns(columns);
+
+  const [groupBy, setGroupBy] = useState<string[]>(_.compact([groupable[0]?.key]));
+  const [aggregates, setAggregates] = useState<Aggregate[]>([{ fn: 'count' }]);
+  const [rows, setRows] = useState<PivotRow[]>();
+  const [progress, setProgress] = useState<{ done: number; total: number; }>();
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState<string>();
+  const [isRunning, setIsRunning] = useState(false);
+  const controller = useRef<AbortController>();
+
+  // Results are stale once the filters change
+  useEffect(() => {
+    controller.current?.abort();
+    setRows(undefined);
+  }, [query]);
+
+  const handleRun = async () => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setIsRunning(true);
+    setProgress(undefined);
+    setError(undefined);
+    try {
+      // Enumerate the groups level by level, narrowing the query with the keys found so far
+      let groups: { keys: any[]; query: TQuery; }[] = [{ keys: [], query }];
+      let complete = true;
+      for (const key of groupBy) {
+        const column = _.find(columns, col => col.key === key);
+        if (!column) continue;
+        const next: typeof groups = [];
+        for (const group of groups) {
+          const distinct = await distinctValues(group.query, column, MAX_PIVOT_GROUPS - next.length, abort.signal);
+          complete = complete && distinct.complete;
+          for (const value of distinct.values) {
+            next.push({ keys: [...group.keys, value], query: group.query.clone().filter(groupFilter(key, value)) });
+          }
+          if (next.length >= MAX_PIVOT_GROUPS) break;
+        }
+        groups = next;
+      }
+
+      const result: PivotRow[] = [];
+      setProgress({ done: 0, total: groups.length });
+      for (const group of groups) {
+        const count = await group.query.count({ master: true, abortSignal: abort.signal });
+        const aggregated = [];
+        for (const aggregate of aggregates) {
+          aggregated.push(await aggregateGroup(group.query, count, aggregate, abort.signal));
+        }
+        result.push({ keys: group.keys, count, values: _.map(aggregated, 'value'), partial: _.map(aggregated, 'partial') });
+        setProgress({ done: result.length, total: groups.length });
+      }
+      setRows(result);
+      setTruncated(!complete);
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error('Failed to compute pivot:', error);
+        setError(error instanceof Error ? error.message : 'Failed to compute pivot');
+      }
+    } finally {
+      controller.current = undefined;
+      setIsRunning(false);
+    }
+  };
+
+  const drillDown = (row: PivotRow) => {
+    onDrillDown?.(_.map(groupBy, (key, idx) => groupFilter(key, row.keys[idx])));
+  };
+
+  const updateGroupBy = (idx: number, key: string) => {
+    setGroupBy(prev => _.compact(_.uniq(Object.assign([...prev], { [idx]: key }))));
+    setRows(undefined);
+  };
+
+  const updateAggregate = (idx: number, aggregate: Aggregate) => {
+    setAggregates(prev => Object.assign([...prev], { [idx]: aggregate }));
+    setRows(undefined);
+  };
+
+  const sheetColumns = [
+    ...groupBy,
+    ..._.map(aggregates, aggregateLabel),
+  ];
+
+  const data = _.map(rows, row => ({
+    row,
+    ..._.fromPairs(_.map(groupBy, (key, idx) => [key, groupLabelOf(row.keys[idx])])),
+    ..._.fromPairs(_.map(aggregates, (aggregate, idx) => {
+      const value = row.values[idx];
+      return [aggregateLabel(aggregate), _.isNil(value) ? '' : `${_.round(value, 6)}${row.partial[idx] ? '*' : ''}`];
+    })),
+  }));
+
+  const ratio = progress && progress.total > 0 ? progress.done / progress.total : 0;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      inset: 0,
+      display: 'flex',
+      flexDirection: 'column',
+    }}>
+      <div style={{
+        padding: `${theme.spacing.md}px ${theme.spacing.xl}px`,
+        borderBottom: `1px solid ${theme.colors['primary-200']}`,
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+        fontSize: theme.fontSize.sm,
+        color: theme.colorContrast('#ffffff'),
+      }}>
+        <span>Group by</span>
+        {_.map([0, 1], idx => (
+          <select
+            key={idx}
+            value={groupBy[idx] ?? ''}
+            disabled={idx > groupBy.length}
+            onChange={(e) => updateGroupBy(idx, e.currentTarget.value)}
+            style={selectStyle(theme)}
+          >
+            {idx > 0 && <option value="">(none)</option>}
+            {_.map(groupable, col => <option key={col.key} value={col.key}>{col.key}</option>)}
+          </select>
+        ))}
+        <span style={{ marginLeft: theme.spacing.md }}>Aggregates</span>
+        {_.map(aggregates, (aggregate, idx) => (
+          <div key={idx} style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+            <select
+              value={aggregate.fn}
+              onChange={(e) => {
+                const fn = e.currentTarget.value as AggregateFunction;
+                updateAggregate(idx, fn === 'count' ? { fn } : { fn, field: aggregate.field ?? numeric[0]?.key });
+              }}
+              style={selectStyle(theme)}
+            >
+              {_.map(aggregateFunctions, fn => (
+                <option key={fn} value={fn} disabled={fn !== 'count' && _.isEmpty(numeric)}>{fn}</option>
+              ))}
+            </select>
+            {aggregate.fn !== 'count' && (
+              <select
+                value={aggregate.field ?? ''}
+                onChange={(e) => updateAggregate(idx, { ...aggregate, field: e.currentTarget.value })}
+                style={selectStyle(theme)}
+              >
+                {_.map(numeric, col => <option key={col.key} value={col.key}>{col.key}</option>)}
+              </select>
+            )}
+            {aggregates.length > 1 && (
+              <button
+                title="Remove aggregate"
+                onClick={() => {
+                  setAggregates(prev => _.filter(prev, (_x, i) => i !== idx));
+                  setRows(undefined);
+                }}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  padding: 0,
+                  display: 'flex',
+                  alignItems: 'center',
+                  color: theme.colorContrast('#ffffff'),
+                  opacity: 0.6,
+                  '&:hover': {
+                    opacity: 1,
+                  },
+                }}
+              >
+                <Icon name="close" size="sm" />
+              </button>
+            )}
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          color="primary"
+          size="sm"
+          onClick={() => {
+            setAggregates(prev => [...prev, _.isEmpty(numeric) ? { fn: 'count' } : { fn: 'sum', field: numeric[0].key }]);
+            setRows(undefined);
+          }}
+        >
+          <Icon name="plus" size="sm" />
+        </Button>
+        <div style={{ flex: 1 }} />
+        {isRunning ? (
+          <Button variant="outline" color="error" size="sm" onClick={() => controller.current?.abort()}>
+            Cancel
+          </Button>
+        ) : (
+          <Button variant="solid" color="primary" size="sm" disabled={_.isEmpty(groupBy)} onClick={handleRun}>
+            Run
+          </Button>
+        )}
+      </div>
+      {isRunning && (
+        <div style={{
+          height: 4,
+          backgroundColor: theme.colors['primary-100'],
+          overflow: 'hidden',
+        }}>
+          <div style={{
+            width: `${ratio * 100}%`,
+            height: '100%',
+            backgroundColor: theme.colors.primary,
+            transition: 'width 0.2s ease',
+          }} />
+        </div>
+      )}
+      {error && (
+        <div style={{
+          padding: `${theme.spacing.sm}px ${theme.spacing.xl}px`,
+          fontSize: theme.fontSize.sm,
+          color: theme.colors.error,
+        }}>
+          {error}
+        </div>
+      )}
+      {rows && truncated && (
+        <div style={{
+          padding: `${theme.spacing.sm}px ${theme.spacing.xl}px`,
+          fontSize: theme.fontSize.sm,
+          color: theme.colors.warning,
+        }}>
+          Only the first {MAX_PIVOT_GROUPS} groups are shown.
+        </div>
+      )}
+      {rows && _.some(rows, row => _.some(row.partial)) && (
+        <div style={{
+          padding: `${theme.spacing.sm}px ${theme.spacing.xl}px`,
+          fontSize: theme.fontSize.sm,
+          color: theme.colors.warning,
+        }}>
+          * Partial result, computed from the first {PIVOT_SCAN_LIMIT} objects of the group.
+        </div>
+      )}
+      <div style={{ flex: 1, position: 'relative' }}>
+        <div style={{ position: 'absolute', inset: 0, overflow: 'auto' }}>
+          {rows ? (
+            <DataSheet
+              data={data}
+              columns={sheetColumns}
+              columnWidth={_.map(sheetColumns, () => 160)}
+              startRowNumber={1}
+              allowEditForCell={false}
+              renderRowNumber={({ item, rowNumber }) => (
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.xs }}>
+                  <span style={{ fontFamily: 'monospace' }}>{rowNumber}</span>
+                  {item && onDrillDown && (
+                    <button
+                      title="Show matching rows"
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        cursor: 'pointer',
+                        padding: 0,
+                        color: theme.colors.primary,
+                        display: 'flex',
+                        alignItems: 'center',
+                        opacity: 0.6,
+                        '&:hover': {
+                          opacity: 1,
+                        },
+                      }}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        drillDown(item.row);
+                      }}
+                    >
+                      <Icon name="search" size="sm" />
+                    </button>
+                  )}
+                </div>
+              )}
+              renderItem={({ item, columnKey }) => (
+                <div style={{
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  fontFamily: _.includes(groupBy, columnKey) ? 'inherit' : 'monospace',
+                }}>
+                  {(item as Record<string, any> | undefined)?.[columnKey]}
+                </div>
+              )}
+            />
+          ) : (
+            <div style={{
+              padding: theme.spacing.xl,
+              fontSize: theme.fontSize.sm,
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+            }}>
+              {isRunning
+                ? progress ? `Aggregated ${progress.done} of ${progress.total} groups...` : 'Finding groups...'
+                : `Choose the fields to group by and run to aggregate ${count} objects.`}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -26,11 +26,12 @@
 import _ from 'lodash';
 import { useState } from 'frosty';
 import { TSchema } from '../../proto';
+import { typeOf } from '../../schema';
 import { useTheme } from '../../components/theme';
 import { Button } from '../../components/button';
 import { Icon } from '../../components/icon';
 import { Modal } from '../../components/modal';
-import { encodeValue, readonlyKeysForSchema, systemFields, typeOf } from './utils';
+import { encodeValue, readonlyKeysForSchema, systemFields } from './utils';
 
 type SchemaInfoModalProps = {
   schema: TSchema;
@@ -0,0 +1,185 @@
+//
+//  search.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useEffect, useState } from 'frosty';
+import { TSchema } from '../../proto';
+import { searchableColumns } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Icon } from '../../components/icon';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+const SEARCH_DEBOUNCE = 300;
+
+type QuickSearchProps = {
+  columns: Column[];
+  text: string;
+  fields: string[];
+  onChange: (text: string, fields: string[]) => void;
+};
+
+export const QuickSearch = ({ columns, text, fields, onChange }: QuickSearchProps) => {
+  const theme = useTheme();
+  const [input, setInput] = useState(text);
+  const [showFields, setShowFields] = useState(false);
+  const searchable = searchableColumns(columns);
+
+  // Follow changes made through the URL, e.g. applying a saved view
+  useEffect(() => { setInput(text); }, [text]);
+
+  useEffect(() => {
+    if (input === text) return;
+    const timer = setTimeout(() => onChange(input, fields), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const toggleField = (key: string) => {
+    onChange(input, _.includes(fields, key) ? _.without(fields, key) : [...fields, key]);
+  };
+
+  return (
+    <div style={{
+      position: 'relative',
+      display: 'flex',
+      alignItems: 'center',
+      border: `1px solid ${theme.colors['primary-300']}`,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: '#ffffff',
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        paddingLeft: theme.spacing.sm,
+        color: theme.colorContrast('#ffffff'),
+        opacity: 0.5,
+      }}>
+        <Icon name="search" size="sm" />
+      </div>
+      <input
+        type="text"
+        placeholder={_.isEmpty(searchable) ? 'No searchable fields' : 'Quick search'}
+        disabled={_.isEmpty(searchable)}
+        value={input}
+        onInput={(e) => setInput((e.target as HTMLInputElement).value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onChange(input, fields);
+          if (e.key === 'Escape') {
+            setInput('');
+            onChange('', fields);
+          }
+        }}
+        style={{
+          width: '160px',
+          padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+          fontSize: theme.fontSize.sm,
+          border: 'none',
+          outline: 'none',
+          backgroundColor: 'transparent',
+          color: theme.colorContrast('#ffffff'),
+        }}
+      />
+      <button
+        title="Fields to search"
+        disabled={_.isEmpty(searchable)}
+        onClick={() => setShowFields(!showFields)}
+        style={{
+          background: 'none',
+          border: 'none',
+          borderLeft: `1px solid ${theme.colors['primary-200']}`,
+          cursor: 'pointer',
+          padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+          fontSize: theme.fontSize.xs,
+          color: theme.colorContrast('#ffffff'),
+          opacity: 0.7,
+          whiteSpace: 'nowrap',
+          '&:hover': {
+            opacity: 1,
+          },
+        }}
+      >
+        {_.isEmpty(fields) ? 'All fields' : `${fields.length} ${fields.length === 1 ? 'field' : 'fields'}`}
+      </button>
+      {showFields && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          right: 0,
+          marginTop: theme.spacing.xs,
+          minWidth: '200px',
+          maxHeight: '300px',
+          overflow: 'auto',
+          zIndex: 10,
+          padding: theme.spacing.sm,
+          backgroundColor: '#ffffff',
+          border: `1px solid ${theme.colors['primary-200']}`,
+          borderRadius: theme.borderRadius.md,
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+        }}>
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: theme.spacing.sm,
+            padding: theme.spacing.xs,
+            fontSize: theme.fontSize.sm,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.colorContrast('#ffffff'),
+            cursor: 'pointer',
+          }}>
+            <input
+              type="checkbox"
+              checked={_.isEmpty(fields)}
+              onChange={() => onChange(input, [])}
+              style={{ cursor: 'pointer' }}
+            />
+            All fields
+          </label>
+          {_.map(searchable, col => (
+            <label
+              key={col.key}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: theme.spacing.sm,
+                padding: theme.spacing.xs,
+                fontSize: theme.fontSize.sm,
+                color: theme.colorContrast('#ffffff'),
+                cursor: 'pointer',
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={_.includes(fields, col.key)}
+                onChange={() => toggleField(col.key)}
+                style={{ cursor: 'pointer' }}
+              />
+              {col.key}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+//
+//  sortEditor.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useState } from 'frosty';
+import { TSchema } from '../../proto';
+import { typeOf } from '../../schema';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+
+type SortKey = { key: string; order: 1 | -1 };
+
+type SortEditorModalProps = {
+  columns: Array<{ key: string; baseField: string; fieldType: TSchema['fields'][string] }>;
+  sort: Record<string, 1 | -1>;
+  onApply: (sort: Record<string, 1 | -1>) => void;
+  onCancel: () => void;
+};
+
+export const SortEditorModal = ({ columns, sort, onApply, onCancel }: SortEditorModalProps) => {
+  const theme = useTheme();
+  // Sort keys in priority order, the key prop resets the component
+  const [keys, setKeys] = useState<SortKey[]>(_.map(_.toPairs(sort), ([key, order]) => ({ key, order })));
+  const [dragIndex, setDragIndex] = useState<number>();
+  const [newKey, setNewKey] = useState('');
+
+  const available = _.filter(columns, col => !_.some(keys, k => k.key === col.key));
+
+  const toggleOrder = (index: number) => {
+    setKeys(_.map(keys, (k, i) => i === index ? { ...k, order: k.order === 1 ? -1 : 1 } : k));
+  };
+
+  const removeKey = (index: number) => {
+    setKeys(_.filter(keys, (_k, i) => i !== index));
+  };
+
+  const addKey = () => {
+    if (!newKey) return;
+    setKeys([...keys, { key: newKey, order: 1 }]);
+    setNewKey('');
+  };
+
+  // Move the dragged key over the hovered row while dragging
+  const handleDragOver = (e: DragEvent, index: number) => {
+    e.preventDefault();
+    if (_.isNil(dragIndex) || dragIndex === index) return;
+    const newKeys = [...keys];
+    const [moved] = newKeys.splice(dragIndex, 1);
+    newKeys.splice(index, 0, moved);
+    setKeys(newKeys);
+    setDragIndex(index);
+  };
+
+  const handleApply = () => {
+    onApply(_.fromPairs(_.map(keys, k => [k.key, k.order])));
+  };
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '520px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Sort
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+        }}>
+          <div style={{
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.7,
+            marginBottom: theme.spacing.md,
+          }}>
+            Objects are sorted by the first key, ties are broken by the following keys. Drag the keys to change their priority.
+          </div>
+
+          {keys.length === 0 && (
+            <div style={{
+              padding: theme.spacing.md,
+              textAlign: 'center',
+              fontSize: theme.fontSize.sm,
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.5,
+            }}>
+              No sort keys
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+            {_.map(keys, ({ key, order }, index) => {
+              const column = _.find(columns, col => col.key === key);
+              return (
+                <div
+                  key={key}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer?.setData('text/plain', key);
+                    setDragIndex(index);
+                  }}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDragEnd={() => setDragIndex(undefined)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: theme.spacing.sm,
+                    padding: theme.spacing.sm,
+                    backgroundColor: dragIndex === index ? theme.colors['primary-100'] : '#ffffff',
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                    borderRadius: theme.borderRadius.md,
+                    cursor: 'grab',
+                  }}
+                >
+                  {/* Drag handle and priority */}
+                  <span style={{
+                    fontSize: theme.fontSize.sm,
+                    color: theme.colorContrast('#ffffff'),
+                    opacity: 0.5,
+                    userSelect: 'none',
+                  }}>
+                    ⋮⋮ {index + 1}
+                  </span>
+
+                  {/* Sort path */}
+                  <div style={{
+                    flex: 1,
+                    fontSize: theme.fontSize.sm,
+                    fontFamily: 'monospace',
+                    color: theme.colorContrast('#ffffff'),
+                  }}>
+                    {key}
+                    {column && (
+                      <span style={{ opacity: 0.5, paddingLeft: theme.spacing.xs }}>({typeOf(column.fieldType)})</span>
+                    )}
+                  </div>
+
+                  {/* Direction toggle */}
+                  <Button
+                    variant="outline"
+                    color="primary"
+                    size="sm"
+                    onClick={() => toggleOrder(index)}
+                  >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                      <Icon name={order === 1 ? 'sortAsc' : 'sortDesc'} size="sm" />
+                      <span>{order === 1 ? 'Ascending' : 'Descending'}</span>
+                    </div>
+                  </Button>
+
+                  <button
+                    title="Remove"
+                    onClick={() => removeKey(index)}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      padding: theme.spacing.xs,
+                      display: 'flex',
+                      alignItems: 'center',
+                      color: theme.colors.error,
+                      opacity: 0.6,
+                      '&:hover': {
+                        opacity: 1,
+                      },
+                    }}
+                  >
+                    <Icon name="trash" size="sm" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Add sort key */}
+          <div style={{
+            display: 'flex',
+            gap: theme.spacing.sm,
+            marginTop: theme.spacing.md,
+          }}>
+            <select
+              value={newKey}
+              onChange={(e) => setNewKey(e.currentTarget.value)}
+              style={{
+                flex: 1,
+                padding: theme.spacing.sm,
+                fontSize: theme.fontSize.sm,
+                border: `1px solid ${theme.colors['primary-300']}`,
+                borderRadius: theme.borderRadius.md,
+              }}
+            >
+              <option value="">Select a field...</option>
+              {_.map(available, col => (
+                <option key={col.key} value={col.key}>{col.key}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              disabled={!newKey}
+              onClick={addKey}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="plus" size="sm" />
+                <span>Add</span>
+              </div>
+            </Button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="ghost"
+            color="primary"
+            size="sm"
+            onClick={() => setKeys([])}
+          >
+            Clear
+          </Button>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="solid"
+              color="primary"
+              size="sm"
+              onClick={handleApply}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
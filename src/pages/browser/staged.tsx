@@ -0,0 +1,235 @@
+//
+//  staged.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { Decimal } from 'proto.io';
+import { TObject } from '../../proto';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { encodeValue } from './utils';
+import { tdStyle, thStyle } from './tableStyle';
+
+// A locally edited object waiting to be committed
+export type StagedChange = {
+  // Object as loaded from the server, undefined for new objects
+  original?: TObject;
+  current: TObject;
+  keys: string[];
+  // New password of a User, set after the object is saved
+  password?: string;
+};
+
+const displayValue = (value: any): string => {
+  if (_.isNil(value)) return '(null)';
+  if (_.isString(value)) return value;
+  if (_.isNumber(value) || _.isBoolean(value)) return `${value}`;
+  if (value instanceof Decimal) return value.toString();
+  if (_.isDate(value)) return value.toISOString();
+  if (value instanceof File) return value.name;
+  if (_.isArray(value) && _.some(value, v => _.isFunction(v?.fetch))) return `[${_.map(value, v => v.id).join(', ')}]`;
+  if (_.isFunction(value?.fetch)) return value.filename ?? value.id ?? '';
+  return encodeValue(value, 0);
+};
+
+const cellStyle = (theme: ReturnType<typeof useTheme>) => ({
+  ...tdStyle(theme),
+  fontFamily: 'monospace',
+  wordBreak: 'break-all' as const,
+});
+
+type ReviewChangesModalProps = {
+  className: string;
+  changes: StagedChange[];
+  onCommit: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+};
+
+export const ReviewChangesModal = ({ className, changes, onCommit, onDiscard, onCancel }: ReviewChangesModalProps) => {
+  const theme = useTheme();
+  const fieldCount = _.sumBy(changes, c => c.keys.length + (_.isNil(c.password) ? 0 : 1));
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '800px',
+        maxWidth: '90vw',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Review Changes
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          <div style={{
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.7,
+          }}>
+            {fieldCount} {fieldCount === 1 ? 'field' : 'fields'} changed in {changes.length} {changes.length === 1 ? 'object' : 'objects'} of "{className}".
+          </div>
+
+          {changes.map((change, idx) => (
+            <div
+              key={change.original?.id ?? `new-${idx}`}
+              style={{
+                border: `1px solid ${theme.colors['primary-200']}`,
+                borderRadius: theme.borderRadius.md,
+                overflow: 'hidden',
+              }}
+            >
+              <div style={{
+                padding: `${theme.spacing.sm}px ${theme.spacing.md}px`,
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.semibold,
+                color: theme.colorContrast(theme.colors['primary-100']),
+                backgroundColor: theme.colors['primary-100'],
+              }}>
+                {change.original?.id ? `${className}#${change.original.id}` : `New ${className}`}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: theme.fontSize.sm, tableLayout: 'fixed' }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...thStyle(theme), width: '25%' }}>Field</th>
+                    <th style={thStyle(theme)}>Before</th>
+                    <th style={thStyle(theme)}>After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {change.keys.map(key => (
+                    <tr key={key}>
+                      <td style={cellStyle(theme)}>{key}</td>
+                      <td style={{ ...cellStyle(theme), backgroundColor: theme.colors['error-100'] }}>
+                        {change.original ? displayValue(change.original.get(key)) : '—'}
+                      </td>
+                      <td style={{ ...cellStyle(theme), backgroundColor: theme.colors['success-100'] }}>
+                        {displayValue(change.current.get(key))}
+                      </td>
+                    </tr>
+                  ))}
+                  {!_.isNil(change.password) && (
+                    <tr>
+                      <td style={cellStyle(theme)}>password</td>
+                      <td style={{ ...cellStyle(theme), backgroundColor: theme.colors['error-100'] }}>
+                        {change.original ? '(hidden)' : '—'}
+                      </td>
+                      <td style={{ ...cellStyle(theme), backgroundColor: theme.colors['success-100'] }}>
+                        (changed)
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="ghost"
+            color="error"
+            size="sm"
+            onClick={onDiscard}
+          >
+            Discard All
+          </Button>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="solid"
+              color="primary"
+              size="sm"
+              disabled={_.isEmpty(changes)}
+              onClick={onCommit}
+            >
+              Commit {changes.length} {changes.length === 1 ? 'object' : 'objects'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,70 @@
+//
+//  tableStyle.ts
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import { useTheme } from '../../components/theme';
+
+type Theme = ReturnType<typeof useTheme>;
+
+// Header and data cells of the tables inside modals and panels,
+// rows are striped when the row index is given
+export const thStyle = (theme: Theme) => ({
+  padding: `${theme.spacing.sm}px ${theme.spacing.md}px`,
+  textAlign: 'left' as const,
+  fontWeight: theme.fontWeight.semibold,
+  color: theme.colors.primary,
+  backgroundColor: theme.colors['primary-100'],
+  borderBottom: `1px solid ${theme.colors['primary-200']}`,
+  whiteSpace: 'nowrap' as const,
+});
+
+export const tdStyle = (theme: Theme, idx?: number) => ({
+  padding: `${theme.spacing.sm}px ${theme.spacing.md}px`,
+  color: theme.colorContrast('#ffffff'),
+  backgroundColor: idx === undefined || idx % 2 === 0 ? '#ffffff' : theme.colors['primary-100'],
+  borderBottom: `1px solid ${theme.colors['primary-100']}`,
+  verticalAlign: 'top' as const,
+});
+
+// Smaller cells with a sticky header for the long result lists
+export const compactThStyle = (theme: Theme) => ({
+  textAlign: 'left' as const,
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.xs,
+  fontWeight: theme.fontWeight.semibold,
+  color: theme.colorContrast(theme.colors['primary-100']),
+  backgroundColor: theme.colors['primary-100'],
+  borderBottom: `1px solid ${theme.colors['primary-200']}`,
+  position: 'sticky' as const,
+  top: 0,
+});
+
+export const compactTdStyle = (theme: Theme, idx: number) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.xs,
+  fontFamily: 'monospace',
+  color: theme.colorContrast('#ffffff'),
+  backgroundColor: idx % 2 === 0 ? '#ffffff' : theme.colors['primary-100'],
+  borderBottom: `1px solid ${theme.colors['primary-100']}`,
+});
@@ -24,8 +24,9 @@
 //
 
 import _ from 'lodash';
-import { Decimal } from 'proto.io';
-import { TSchema } from '../../proto';
+import { Decimal, ProtoClient, deserialize, serialize } from 'proto.io';
+import { QueryFilter, TObject, TQuery, TSchema } from '../../proto';
+import { _typeOf } from '../../schema';
 
 // System fields that cannot be edited
 export const systemReadonlyFields = ['_id', '__v', '__i', '_created_at', '_updated_at'];
@@ -40,8 +41,169 @@ export const readonlyKeysForSchema = (schema?: TSchema) => {
   ]);
 };
 
-export const _typeOf = (x?: TSchema['fields'][string]) => _.isString(x) ? x : x?.type;
-export const typeOf = (x?: TSchema['fields'][string]) => _.isString(x) ? x : x?.type === 'pointer' && x.target === 'File' ? 'file' : x?.type;
+// Include paths needed to render pointer, relation and file columns
+export const includesForColumns = (columns: Array<{ key: string; fieldType: TSchema['fields'][string] }>) => {
+  const relation = _.filter(columns, ({ fieldType: type }) => !_.isString(type) && (type.type === 'pointer' || type.type === 'relation'));
+  const files = _.filter(columns, ({ fieldType: type }) => !_.isString(type) && type.type === 'pointer' && type.target === 'File');
+  return [
+    '*',
+    ..._.map(relation, ({ key }) => `${key}._id`),
+    ..._.map(files, ({ key }) => `${key}.filename`),
+  ];
+};
+
+// Iterate over every object matched by the query in batches.
+// Pages follow the keyset of the last object, so objects with null sort values are kept.
+export const fetchBatches = async (
+  query: TQuery,
+  sort: Record<string, 1 | -1>,
+  callback: (batch: TObject[]) => void | Promise<void>,
+  options: { batchSize?: number; signal?: AbortSignal; } = {},
+) => {
+  const { batchSize = 100, signal } = options;
+  const order = keysetSort(sort);
+  let cursor: any[] | undefined;
+  for (;;) {
+    signal?.throwIfAborted();
+    const q = query.clone().sort(order).limit(batchSize);
+    if (cursor) q.filter(keysetFilter(sort, cursor, 'after'));
+    const batch = await q.find({ master: true, abortSignal: signal });
+    if (_.isEmpty(batch)) break;
+    await callback(batch);
+    if (batch.length < batchSize) break;
+    const last = _.last(batch)!;
+    cursor = _.map(_.keys(order), key => last.get(key) ?? null);
+  }
+};
+
+export const errorMessage = (error: unknown) => error instanceof Error ? error.message : `${error}`;
+
+export type BatchResult = {
+  succeeded: number;
+  failures: { id: string; error: string }[];
+  cancelled: boolean;
+};
+
+// Run an operation on the ids of every object matched by the query in batches,
+// a failed batch is retried one by one to find out the failed objects
+export const runBatches = async (
+  query: TQuery,
+  operation: {
+    batch: (ids: string[]) => Promise<number>;
+    one: (id: string) => Promise<void>;
+  },
+  options: { batchSize?: number; signal?: AbortSignal; onProgress?: (processed: number) => void; } = {},
+) => {
+  const { batchSize = 100, signal, onProgress } = options;
+  const result: BatchResult = { succeeded: 0, failures: [], cancelled: false };
+  try {
+    let processed = 0;
+    await fetchBatches(query.clone().includes('_id'), {}, async (batch) => {
+      const ids = _.compact(_.map(batch, obj => obj.id));
+      try {
+        result.succeeded += await operation.batch(ids);
+      } catch {
+        for (const id of ids) {
+          try {
+            await operation.one(id);
+            result.succeeded++;
+          } catch (error) {
+            result.failures.push({ id, error: errorMessage(error) });
+          }
+        }
+      }
+      processed += batch.length;
+      onProgress?.(processed);
+    }, { batchSize, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      result.cancelled = true;
+    } else {
+      console.error('Failed to process objects:', error);
+      result.failures.push({ id: '', error: errorMessage(error) });
+    }
+  }
+  return result;
+};
+
+// Map the items with an async function, running at most `limit` calls at a time
+export const mapConcurrent = async <T, R>(items: T[], limit: number, fn: (item: T, idx: number) => PromiseLike<R>) => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx], idx);
+    }
+  };
+  await Promise.all(_.times(Math.min(limit, items.length), worker));
+  return results;
+};
+
+// Number of objects matched by the query and the extra filter
+export const countMatches = (query: TQuery, filter: QueryFilter, signal?: AbortSignal) => {
+  return query.clone().filter(filter).count({ master: true, abortSignal: signal });
+};
+
+// Smallest and largest non-null values of the field, read with one sorted object each
+export const fieldBounds = async (query: TQuery, field: string, signal?: AbortSignal) => {
+  const q = query.clone().includes(field).filter({ [field]: { $ne: null } });
+  const [lo, hi] = await Promise.all([
+    q.clone().sort({ [field]: 1 }).first({ master: true, abortSignal: signal }),
+    q.clone().sort({ [field]: -1 }).first({ master: true, abortSignal: signal }),
+  ]);
+  if (!lo || !hi) return;
+  return [lo.get(field), hi.get(field)] as const;
+};
+
+// Values of the field for at most `limit` objects matched by the query,
+// `complete` is false when more objects are left unread
+export const sampleValues = async (query: TQuery, field: string, limit: number, signal?: AbortSignal) => {
+  const objects = await query.clone().includes(field).limit(limit + 1).find({ master: true, abortSignal: signal });
+  return {
+    values: _.map(_.take(objects, limit), obj => obj.get(field)),
+    complete: objects.length <= limit,
+  };
+};
+
+// Sort order used for keyset pagination, `_id` breaks ties between equal values
+export const keysetSort = (sort: Record<string, 1 | -1>): Record<string, 1 | -1> => ({ ..._.omit(sort, '_id'), _id: sort._id ?? 1 });
+
+// A cursor holds the values of the keyset sort keys of the boundary object
+export const encodeCursor = (obj: TObject, sort: Record<string, 1 | -1>) => serialize(_.map(_.keys(keysetSort(sort)), key => obj.get(key) ?? null));
+
+export const decodeCursor = (cursor: string | null) => {
+  if (!cursor) return;
+  try {
+    const values = deserialize(cursor);
+    return _.isArray(values) ? values : undefined;
+  } catch {
+    return;
+  }
+};
+
+// Filter for objects after (or before) the cursor in the keyset sort order.
+// Nulls sort after every value in ascending order (and first in descending),
+// so they are matched explicitly as comparisons never match null.
+export const keysetFilter = (sort: Record<string, 1 | -1>, cursor: any[], direction: 'after' | 'before'): QueryFilter => {
+  const keys = _.toPairs(keysetSort(sort));
+  const beyond = (key: string, value: any, greater: boolean): QueryFilter | undefined => {
+    if (greater) return _.isNil(value) ? undefined : { $or: [{ [key]: { $gt: value } }, { [key]: { $eq: null } }] };
+    return _.isNil(value) ? { [key]: { $ne: null } } : { [key]: { $lt: value } };
+  };
+  return {
+    $or: _.compact(_.map(keys, ([key, order], i) => {
+      const filter = beyond(key, cursor[i], (order === 1) === (direction === 'after'));
+      if (!filter) return;
+      return {
+        $and: [
+          ..._.map(keys.slice(0, i), ([k], j) => ({ [k]: { $eq: cursor[j] ?? null } })),
+          filter,
+        ],
+      };
+    })),
+  };
+};
 
 export const encodeValue = (value: any, space = 2) => {
   const normalName = /^[a-z_][a-z\d_]\w*$/gi;
@@ -321,3 +483,62 @@ export const verifyValue = (value: any) => {
   }
   throw Error('Invalid value');
 };
+
+// Parse a vector written as a JSON array or as comma / whitespace separated numbers
+export const parseVector = (value: string, dimension?: number) => {
+  const text = _.trim(value).replace(/^\[|\]$/g, '');
+  const vector = _.map(_.compact(text.split(/[\s,]+/)), v => Number(v));
+  if (_.isEmpty(vector) || !_.every(vector, v => _.isFinite(v))) throw new Error('Invalid vector');
+  if (!_.isNil(dimension) && vector.length !== dimension) {
+    throw new Error(`Expected a vector of dimension ${dimension}, got ${vector.length}`);
+  }
+  return vector;
+};
+
+// Decode a raw text value (e.g. from clipboard or an imported file) into the field type
+export const decodeRawValue = async (proto: ProtoClient, fieldType: TSchema['fields'][string], value: string) => {
+  switch (_typeOf(fieldType)) {
+    case 'boolean':
+      if (value.toLowerCase() === 'true') return true;
+      if (value.toLowerCase() === 'false') return false;
+      break;
+    case 'number':
+      {
+        const number = parseFloat(value);
+        if (_.isFinite(number)) return number;
+        break;
+      }
+    case 'decimal':
+      {
+        const number = value.startsWith('Decimal(') ? decodeValue(value) : new Decimal(value);
+        if (number instanceof Decimal && number.isFinite()) return number;
+        break;
+      }
+    case 'string': return value;
+    case 'date':
+      {
+        const date = value.startsWith('ISODate(') ? decodeValue(value) : new Date(value);
+        if (_.isDate(date) && _.isFinite(date.valueOf())) return date;
+        break;
+      }
+    case 'object':
+    case 'array':
+    case 'string[]':
+      const parsed = decodeValue(value);
+      verifyValue(parsed);
+      return parsed;
+    case 'vector':
+      if (!_.isString(fieldType) && fieldType.type === 'vector') return parseVector(value, fieldType.dimension);
+      break;
+    case 'pointer':
+      if (!_.isEmpty(value) && !_.isString(fieldType) && fieldType.type === 'pointer') return proto.Object(fieldType.target, value).fetch({ master: true });
+      break;
+    case 'relation':
+      const _value = JSON.parse(value);
+      if (_.isArray(_value) && _.every(_value, v => !_.isEmpty(v) && _.isString(v)) && !_.isString(fieldType) && fieldType.type === 'relation') {
+        return await Promise.all(_.map(_value, v => proto.Object(fieldType.target, v).fetch({ master: true })));
+      }
+      break;
+    default: break;
+  }
+};
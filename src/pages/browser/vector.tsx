@@ -0,0 +1,361 @@
+//
+//  vector.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useState } from 'frosty';
+import { TObject, TSchema, useProto } from '../../proto';
+import { useTheme } from '../../components/theme';
+import { useNavigate } from '../../components/router';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { parseVector } from './utils';
+import { vectorPreview } from './cell';
+import { thStyle, tdStyle } from './tableStyle';
+
+type VectorIndex = Extract<NonNullable<TSchema['indexes']>[number], { type: 'vector' }>;
+
+type DistanceMetric = '$distance' | '$cosineDistance' | '$negInnerProduct' | '$rectilinearDistance';
+
+const metrics: { value: DistanceMetric; label: string; }[] = [
+  { value: '$distance', label: 'Euclidean' },
+  { value: '$cosineDistance', label: 'Cosine' },
+  { value: '$negInnerProduct', label: 'Inner product' },
+  { value: '$rectilinearDistance', label: 'Manhattan' },
+];
+
+// Distance computed locally for display, matching the database ordering
+const distanceOf = (metric: DistanceMetric, a: number[], b: number[]) => {
+  const pairs = _.zip(a, b) as [number, number][];
+  switch (metric) {
+    case '$distance': return Math.sqrt(_.sumBy(pairs, ([x, y]) => (x - y) ** 2));
+    case '$rectilinearDistance': return _.sumBy(pairs, ([x, y]) => Math.abs(x - y));
+    case '$negInnerProduct': return -_.sumBy(pairs, ([x, y]) => x * y);
+    case '$cosineDistance':
+      const dot = _.sumBy(pairs, ([x, y]) => x * y);
+      const norm = Math.sqrt(_.sumBy(a, x => x * x)) * Math.sqrt(_.sumBy(b, x => x * x));
+      return norm === 0 ? 1 : 1 - dot / norm;
+  }
+};
+
+const indexKeys = (index: VectorIndex) => _.castArray(index.keys);
+
+// Vector of an object for the given index, either a vector field or a list of number fields
+export const vectorOf = (object: TObject, index: VectorIndex): number[] | undefined => {
+  const keys = indexKeys(index);
+  const vector = keys.length === 1 ? object.get(keys[0]) : _.map(keys, key => object.get(key));
+  return _.isArray(vector) && _.every(vector, v => _.isFinite(v)) ? vector : undefined;
+};
+
+export const vectorIndexes = (schema: TSchema) => _.filter(schema.indexes, (index): index is VectorIndex => index.type === 'vector');
+
+const dimensionOf = (schema: TSchema, index: VectorIndex) => {
+  const keys = indexKeys(index);
+  if (keys.length > 1) return keys.length;
+  const field = schema.fields[keys[0]];
+  return !_.isString(field) && field?.type === 'vector' ? field.dimension : undefined;
+};
+
+const selectStyle = (theme: ReturnType<typeof useTheme>) => ({
+  padding: `${theme.spacing.xs}px ${theme.spacing.sm}px`,
+  fontSize: theme.fontSize.sm,
+  borderRadius: theme.borderRadius.md,
+  border: `1px solid ${theme.colors['primary-300']}`,
+  backgroundColor: '#ffffff',
+  color: theme.colorContrast('#ffffff'),
+});
+
+type NearestNeighborModalProps = {
+  className: string;
+  schema: TSchema;
+  // Object to find similar objects of
+  source?: TObject;
+  onCancel: () => void;
+};
+
+export const NearestNeighborModal = ({ className, schema, source, onCancel }: NearestNeighborModalProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const navigate = useNavigate();
+  const indexes = vectorIndexes(schema);
+
+  const [indexIdx, setIndexIdx] = useState(0);
+  const [metric, setMetric] = useState<DistanceMetric>('$distance');
+  const [limit, setLimit] = useState(10);
+  const [input, setInput] = useState(() => {
+    const vector = source && indexes[0] ? vectorOf(source, indexes[0]) : undefined;
+    return vector ? vector.join(', ') : '';
+  });
+  const [results, setResults] = useState<{ object: TObject; distance: number; }[]>();
+  const [error, setError] = useState<string>();
+  const [isSearching, setIsSearching] = useState(false);
+
+  const index = indexes[indexIdx];
+
+  const selectIndex = (idx: number) => {
+    setIndexIdx(idx);
+    setResults(undefined);
+    const vector = source ? vectorOf(source, indexes[idx]) : undefined;
+    if (vector) setInput(vector.join(', '));
+  };
+
+  const handleSearch = async () => {
+    if (!index) return;
+    setError(undefined);
+    let vector: number[];
+    try {
+      vector = parseVector(input, dimensionOf(schema, index));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid vector');
+      return;
+    }
+    const keys = indexKeys(index);
+    const target = keys.length === 1 ? { $key: keys[0] } : _.map(keys, key => ({ $key: key }));
+    setIsSearching(true);
+    try {
+      const objects = await proto.Query(className)
+        .sort([{ expr: { [metric]: [target, { $value: vector }] }, order: 1 }])
+        .limit(limit)
+        .find({ master: true });
+      setResults(_.map(objects, object => ({
+        object,
+        distance: distanceOf(metric, vectorOf(object, index) ?? [], vector),
+      })));
+    } catch (error) {
+      console.error('Failed to search nearest neighbors:', error);
+      setError(error instanceof Error ? error.message : 'Failed to search nearest neighbors');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '760px',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Nearest Neighbors {source?.id && `of ${source.id}`}
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          flex: 1,
+          overflow: 'auto',
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          {_.isEmpty(indexes) ? (
+            <div style={{
+              fontSize: theme.fontSize.sm,
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.7,
+            }}>
+              {className} has no vector indexes.
+            </div>
+          ) : (
+            <>
+              <div style={{ display: 'flex', gap: theme.spacing.sm, alignItems: 'center' }}>
+                <select
+                  value={`${indexIdx}`}
+                  onChange={(e) => selectIndex(parseInt(e.currentTarget.value))}
+                  style={{ ...selectStyle(theme), flex: 1 }}
+                >
+                  {_.map(indexes, (index, idx) => (
+                    <option key={idx} value={`${idx}`}>
+                      {indexKeys(index).join(', ')}{index.method ? ` (${index.method})` : ''}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={metric}
+                  onChange={(e) => setMetric(e.currentTarget.value as DistanceMetric)}
+                  style={selectStyle(theme)}
+                >
+                  {_.map(metrics, m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                <select
+                  value={`${limit}`}
+                  onChange={(e) => setLimit(parseInt(e.currentTarget.value))}
+                  style={selectStyle(theme)}
+                >
+                  <option value="10">Top 10</option>
+                  <option value="20">Top 20</option>
+                  <option value="50">Top 50</option>
+                </select>
+              </div>
+              <textarea
+                value={input}
+                placeholder={`Paste a vector of ${dimensionOf(schema, index) ?? ''} numbers`}
+                onInput={(e) => setInput((e.target as HTMLTextAreaElement).value)}
+                style={{
+                  minHeight: '80px',
+                  padding: theme.spacing.sm,
+                  fontSize: theme.fontSize.xs,
+                  fontFamily: 'monospace',
+                  borderRadius: theme.borderRadius.md,
+                  border: `1px solid ${error ? theme.colors.error : theme.colors['primary-300']}`,
+                  outline: 'none',
+                  resize: 'vertical',
+                  backgroundColor: '#ffffff',
+                  color: theme.colorContrast('#ffffff'),
+                }}
+              />
+              {error && (
+                <div style={{ fontSize: theme.fontSize.xs, color: theme.colors.error }}>
+                  {error}
+                </div>
+              )}
+              {results && (
+                _.isEmpty(results) ? (
+                  <div style={{
+                    fontSize: theme.fontSize.sm,
+                    color: theme.colorContrast('#ffffff'),
+                    opacity: 0.7,
+                  }}>
+                    No objects found.
+                  </div>
+                ) : (
+                  <table style={{
+                    width: '100%',
+                    borderCollapse: 'collapse',
+                    fontSize: theme.fontSize.sm,
+                    border: `1px solid ${theme.colors['primary-200']}`,
+                  }}>
+                    <thead>
+                      <tr>
+                        <th style={thStyle(theme)}>#</th>
+                        <th style={thStyle(theme)}>Object</th>
+                        <th style={thStyle(theme)}>Distance</th>
+                        <th style={thStyle(theme)}>Vector</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {_.map(results, ({ object, distance }, idx) => (
+                        <tr key={object.id}>
+                          <td style={{ ...tdStyle(theme, idx), width: 32, color: theme.colors.primary }}>{idx + 1}</td>
+                          <td style={tdStyle(theme, idx)}>
+                            <button
+                              style={{
+                                background: 'none',
+                                border: 'none',
+                                padding: 0,
+                                cursor: 'pointer',
+                                color: theme.colors.primary,
+                                fontFamily: 'monospace',
+                                fontSize: theme.fontSize.sm,
+                                '&:hover': {
+                                  textDecoration: 'underline',
+                                },
+                              }}
+                              onClick={() => navigate(`/classes/${className}/${encodeURIComponent(object.id!)}`)}
+                            >
+                              {object.id}
+                            </button>
+                          </td>
+                          <td style={{ ...tdStyle(theme, idx), fontFamily: 'monospace' }}>{_.round(distance, 6)}</td>
+                          <td style={{ ...tdStyle(theme, idx), fontFamily: 'monospace', fontSize: theme.fontSize.xs }}>
+                            {vectorPreview(vectorOf(object, index) ?? [], 5)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Close
+          </Button>
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            disabled={!index || isSearching || _.isEmpty(input.trim())}
+            onClick={handleSearch}
+          >
+            {isSearching ? 'Searching...' : 'Search'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
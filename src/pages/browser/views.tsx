@@ -0,0 +1,332 @@
+//
+//  views.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useMemo, useResource, useState } from 'frosty';
+import { useLocalStorage } from 'frosty/web';
+import { useProto } from '../../proto';
+import { useTheme } from '../../components/theme';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { Modal } from '../../components/modal';
+import { ColumnPin } from './columnSettings';
+import { FormatRule, parseRules } from './formatting';
+
+export type ViewStorage = 'local' | 'config';
+
+// Named snapshot of the query and column layout of a class
+export type SavedView = {
+  name: string;
+  storage: ViewStorage;
+  // Search params of filter, quick search, sort and limit
+  params: string;
+  columnOrder: string[];
+  hiddenColumns: string[];
+  columnPins: Record<string, ColumnPin>;
+  columnWidth: Record<string, number>;
+  // Conditional formatting rules, undefined for views saved without them
+  rules?: FormatRule[];
+};
+
+const viewsKey = (className: string) => `divermeter:views:${className}`;
+
+// Search params captured by a saved view
+export const isViewParam = (key: string) => key === 'filter' || key.startsWith('filter[') || _.includes(['q', 'qFields', 'sort', 'limit'], key);
+
+export const viewParamsFrom = (searchParams: URLSearchParams) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of searchParams.entries()) {
+    if (isViewParam(key)) params.append(key, value);
+  }
+  return params.toString();
+};
+
+const parseViews = (value: any, storage: ViewStorage): SavedView[] => {
+  if (_.isString(value)) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!_.isArray(value)) return [];
+  return _.map(_.filter(value, v => _.isString(v?.name)), v => ({
+    name: v.name,
+    storage,
+    params: _.isString(v.params) ? v.params : '',
+    columnOrder: _.isArray(v.columnOrder) ? v.columnOrder : [],
+    hiddenColumns: _.isArray(v.hiddenColumns) ? v.hiddenColumns : [],
+    columnPins: _.isPlainObject(v.columnPins) ? v.columnPins : {},
+    columnWidth: _.isPlainObject(v.columnWidth) ? v.columnWidth : {},
+    rules: _.isArray(v.rules) ? parseRules(v.rules) : undefined,
+  }));
+};
+
+type ConfigValue = Parameters<ReturnType<typeof useProto>['setConfig']>[0][string];
+
+// Plain JSON of the views, stored in the local storage or the config
+const serializeViews = (views: SavedView[]): ConfigValue[] => _.map(views, v => ({
+  name: v.name,
+  params: v.params,
+  columnOrder: v.columnOrder,
+  hiddenColumns: v.hiddenColumns,
+  columnPins: v.columnPins,
+  columnWidth: v.columnWidth,
+  ...v.rules ? { rules: v.rules } : {},
+}));
+
+export const useSavedViews = (className: string) => {
+  const proto = useProto();
+  const [localValue, setLocalValue] = useLocalStorage(viewsKey(className));
+
+  const {
+    resource: configValue,
+    refresh,
+  } = useResource(async () => {
+    const config = await proto.config({ master: true });
+    return config[viewsKey(className)];
+  }, [className]);
+
+  const local = useMemo(() => parseViews(localValue, 'local'), [localValue]);
+  const shared = useMemo(() => parseViews(configValue, 'config'), [configValue]);
+
+  const updateLocal = (update: (views: SavedView[]) => SavedView[]) => {
+    setLocalValue(JSON.stringify(serializeViews(update(local))));
+  };
+
+  const updateConfig = async (update: (views: SavedView[]) => SavedView[]) => {
+    // Re-read the config to avoid overwriting views saved by someone else
+    const config = await proto.config({ master: true });
+    const views = update(parseViews(config[viewsKey(className)], 'config'));
+    await proto.setConfig({ [viewsKey(className)]: serializeViews(views) }, { master: true });
+    refresh();
+  };
+
+  const save = async (view: SavedView) => {
+    const replace = (views: SavedView[]) => [..._.filter(views, v => v.name !== view.name), view];
+    const remove = (views: SavedView[]) => _.filter(views, v => v.name !== view.name);
+    if (view.storage === 'config') {
+      await updateConfig(replace);
+      if (_.some(local, v => v.name === view.name)) updateLocal(remove);
+    } else {
+      updateLocal(replace);
+      if (_.some(shared, v => v.name === view.name)) await updateConfig(remove);
+    }
+  };
+
+  const remove = async (view: SavedView) => {
+    const remove = (views: SavedView[]) => _.filter(views, v => v.name !== view.name);
+    if (view.storage === 'config') {
+      await updateConfig(remove);
+    } else {
+      updateLocal(remove);
+    }
+  };
+
+  return {
+    views: _.sortBy([...local, ...shared], v => v.name),
+    save,
+    remove,
+  };
+};
+
+type SaveViewModalProps = {
+  views: SavedView[];
+  initialName?: string;
+  initialStorage?: ViewStorage;
+  onSave: (name: string, storage: ViewStorage) => void;
+  onCancel: () => void;
+};
+
+export const SaveViewModal = ({ views, initialName, initialStorage, onSave, onCancel }: SaveViewModalProps) => {
+  const theme = useTheme();
+  const [name, setName] = useState(initialName ?? '');
+  const [storage, setStorage] = useState<ViewStorage>(initialStorage ?? 'local');
+
+  const trimmed = name.trim();
+  const exists = _.some(views, v => v.name === trimmed);
+
+  const storageOption = (value: ViewStorage, label: string, description: string) => (
+    <label style={{
+      display: 'flex',
+      alignItems: 'flex-start',
+      gap: theme.spacing.sm,
+      padding: theme.spacing.sm,
+      border: `1px solid ${storage === value ? theme.colors.primary : theme.colors['primary-200']}`,
+      borderRadius: theme.borderRadius.md,
+      cursor: 'pointer',
+    }}>
+      <input
+        type="radio"
+        name="storage"
+        checked={storage === value}
+        onChange={() => setStorage(value)}
+        style={{ cursor: 'pointer', marginTop: 2 }}
+      />
+      <div>
+        <div style={{
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.medium,
+          color: theme.colorContrast('#ffffff'),
+        }}>
+          {label}
+        </div>
+        <div style={{
+          fontSize: theme.fontSize.xs,
+          color: theme.colorContrast('#ffffff'),
+          opacity: 0.6,
+        }}>
+          {description}
+        </div>
+      </div>
+    </label>
+  );
+
+  return (
+    <Modal show={true}>
+      <div style={{
+        width: '480px',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#ffffff',
+        borderRadius: theme.borderRadius.lg,
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderBottom: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <h3 style={{
+            margin: 0,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.colors.primary,
+          }}>
+            Save View
+          </h3>
+          <button
+            onClick={onCancel}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: theme.spacing.xs,
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colorContrast('#ffffff'),
+              opacity: 0.6,
+              '&:hover': {
+                opacity: 1,
+              },
+            }}
+          >
+            <Icon name="close" size="sm" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{
+          padding: theme.spacing.lg,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: theme.spacing.md,
+        }}>
+          <div style={{
+            fontSize: theme.fontSize.sm,
+            color: theme.colorContrast('#ffffff'),
+            opacity: 0.7,
+          }}>
+            Saves the current filters, sort, page size and column layout.
+          </div>
+          <input
+            type="text"
+            autofocus={true}
+            placeholder="View name"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && trimmed) onSave(trimmed, storage);
+              if (e.key === 'Escape') onCancel();
+            }}
+            style={{
+              width: '100%',
+              padding: `${theme.spacing.sm}px ${theme.spacing.md}px`,
+              fontSize: theme.fontSize.sm,
+              borderRadius: theme.borderRadius.md,
+              border: `1px solid ${theme.colors['primary-300']}`,
+              outline: 'none',
+              boxSizing: 'border-box',
+              backgroundColor: '#ffffff',
+              color: theme.colorContrast('#ffffff'),
+            }}
+          />
+          {exists && (
+            <div style={{
+              fontSize: theme.fontSize.xs,
+              color: theme.colors.warning,
+            }}>
+              A view named "{trimmed}" already exists and will be replaced.
+            </div>
+          )}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.sm }}>
+            {storageOption('local', 'This browser', 'Stored in local storage, only visible to you.')}
+            {storageOption('config', 'Shared', 'Stored in the server config, visible to everyone with master access.')}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: theme.spacing.lg,
+          borderTop: `1px solid ${theme.colors['primary-200']}`,
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: theme.spacing.sm,
+        }}>
+          <Button
+            variant="outline"
+            color="primary"
+            size="sm"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="solid"
+            color="primary"
+            size="sm"
+            disabled={!trimmed}
+            onClick={() => onSave(trimmed, storage)}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
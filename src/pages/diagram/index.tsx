@@ -83,10 +83,10 @@ const getFieldInfo = (name: string, ftype: TSchema['fields'][string]): FieldInfo
   };
 };
 
-type RelationEntry = { path: string; target: string; relType: 'pointer' | 'relation' };
+export type RelationEntry = { path: string; target: string; relType: 'pointer' | 'relation' };
 
 /** Recursively collect pointer/relation entries from a field, including inside shape members. */
-const collectRelations = (fname: string, ftype: TSchema['fields'][string]): RelationEntry[] => {
+export const collectRelations = (fname: string, ftype: TSchema['fields'][string]): RelationEntry[] => {
   if (_.isString(ftype)) return [];
   if (ftype.type === 'pointer' || ftype.type === 'relation') {
     return [{ path: fname, target: ftype.target, relType: ftype.type }];
@@ -30,6 +30,7 @@ import { useResource } from 'frosty';
 import { normalizeColor, getRed, getGreen, getBlue, rgba, toHexString, mixColor } from '@o2ter/colors.js';
 import { useNavigate } from '../../components/router';
 import { Spinner } from '../../components/spinner';
+import { PinnedChartCard, usePinnedCharts } from '../browser/chart';
 
 type DashboardStats = {
   classCount: number;
@@ -176,6 +177,7 @@ export const HomePage = () => {
   const schema = useProtoSchema();
   const theme = useTheme();
   const navigate = useNavigate();
+  const pinnedCharts = usePinnedCharts();
 
   const { resource: stats, loading } = useResource<DashboardStats>(async () => {
     const config = await proto.config({ master: true });
@@ -267,6 +269,34 @@ export const HomePage = () => {
         />
       </div>
 
+      {/* Pinned Charts Section */}
+      {!_.isEmpty(pinnedCharts.charts) && (
+        <div style={{ marginBottom: `${theme.spacing.xl}px` }}>
+          <h2 style={{
+            fontSize: `${theme.fontSize.lg * 1.5}px`,
+            fontWeight: theme.fontWeight.semibold,
+            color: textColor,
+            marginTop: 0,
+            marginBottom: `${theme.spacing.md}px`,
+          }}>
+            Pinned Charts
+          </h2>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(400px, 1fr))',
+            gap: `${theme.spacing.lg}px`,
+          }}>
+            {_.map(pinnedCharts.charts, chart => (
+              <PinnedChartCard
+                key={chart.id}
+                chart={chart}
+                onUnpin={() => pinnedCharts.unpin(chart.id)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Links Section */}
       <div style={{ marginBottom: `${theme.spacing.xl}px` }}>
         <h2 style={{
@@ -0,0 +1,440 @@
+//
+//  index.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useMemo, useResource, useState } from 'frosty';
+import { TObject, TSchema, useProto, useProtoSchema } from '../../proto';
+import { expandColumns } from '../../schema';
+import { useParams, useNavigate } from '../../components/router';
+import { useTheme } from '../../components/theme';
+import { useAlert } from '../../components/alert';
+import { useActivity } from '../../components/activity';
+import { Button } from '../../components/button';
+import { Icon } from '../../components/icon';
+import { TableCell } from '../browser/cell';
+import { ReferencedBy } from './references';
+import { AclChange, AclEditorModal } from '../browser/acl';
+import { includesForColumns, readonlyKeysForSchema, systemFields } from '../browser/utils';
+import { tdStyle, thStyle } from '../browser/tableStyle';
+
+// Number of related objects listed for each relation field
+const RELATION_PREVIEW_LIMIT = 5;
+
+// Types of system fields which are not always listed in the schema
+const systemFieldTypes: TSchema['fields'] = {
+  _id: 'string',
+  _created_at: 'date',
+  _updated_at: 'date',
+  _expired_at: 'date',
+  _rperm: 'string[]',
+  _wperm: 'string[]',
+};
+
+const linkStyle = (theme: ReturnType<typeof useTheme>) => ({
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  cursor: 'pointer',
+  color: theme.colors.primary,
+  fontFamily: 'monospace',
+  fontSize: theme.fontSize.sm,
+  textAlign: 'left' as const,
+  '&:hover': {
+    textDecoration: 'underline',
+  },
+});
+
+const Section = ({ title, children }: { title: string; children: any; }) => {
+  const theme = useTheme();
+  return (
+    <div style={{ marginBottom: theme.spacing.xl }}>
+      <h3 style={{
+        margin: 0,
+        marginBottom: theme.spacing.sm,
+        fontSize: theme.fontSize.md,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.primary,
+      }}>
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+};
+
+const FieldTable = ({ children }: { children: any; }) => {
+  const theme = useTheme();
+  return (
+    <table style={{
+      width: '100%',
+      borderCollapse: 'collapse',
+      fontSize: theme.fontSize.sm,
+      border: `1px solid ${theme.colors['primary-200']}`,
+    }}>
+      <tbody>{children}</tbody>
+    </table>
+  );
+};
+
+// Embedded list of the first few objects in a relation
+const RelationList = ({ object, field, target }: {
+  object: TObject;
+  field: string;
+  target: string;
+}) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const navigate = useNavigate();
+
+  const { resource, loading } = useResource(async () => {
+    const query = proto.Relation(object, field);
+    const [count, items] = await Promise.all([
+      query.count({ master: true }),
+      query.clone().limit(RELATION_PREVIEW_LIMIT).find({ master: true }),
+    ]);
+    return { count, items };
+  }, [proto, object, field]);
+
+  if (!resource) {
+    return <span style={{ opacity: 0.5 }}>{loading ? 'Loading...' : '(none)'}</span>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.xs }}>
+      {_.map(resource.items, item => (
+        <button
+          key={item.id}
+          style={linkStyle(theme)}
+          onClick={() => navigate(`/classes/${target}/${encodeURIComponent(item.id!)}`)}
+        >
+          {item.id}
+        </button>
+      ))}
+      <button
+        style={{ ...linkStyle(theme), fontFamily: 'inherit', fontSize: theme.fontSize.xs }}
+        onClick={() => navigate(`/classes/${target}?relationOf=${encodeURIComponent(object.className)}&relationId=${encodeURIComponent(object.id!)}&relationField=${encodeURIComponent(field)}`)}
+      >
+        {resource.count === 0 ? 'No related objects, open in browser' : `View all ${resource.count} in ${target}`}
+      </button>
+    </div>
+  );
+};
+
+export const ObjectPage = () => {
+  const theme = useTheme();
+  const alert = useAlert();
+  const proto = useProto();
+  const schemas = useProtoSchema();
+  const navigate = useNavigate();
+  const startActivity = useActivity();
+  const { schema: className, id: objectId } = useParams() as { schema: string; id: string; };
+  const { [className]: schema } = schemas;
+
+  const [editing, setEditing] = useState<{ key: string; value?: any; }>();
+  const [showAcl, setShowAcl] = useState<number>();
+
+  const fullSchema = useMemo(() => schema && {
+    ...schema,
+    fields: { ...systemFieldTypes, ...schema.fields },
+  }, [schema]);
+
+  const columns = useMemo(() => schema ? expandColumns(schema.fields) : [], [schema]);
+  const fieldColumns = _.filter(columns, col => !_.includes(systemFields, col.baseField));
+  const readonlyKeys = readonlyKeysForSchema(schema);
+
+  const {
+    resource: object,
+    loading,
+    refresh,
+  } = useResource(async () => {
+    if (!schema) return;
+    return await proto.Query(className)
+      .filter({ _id: { $eq: objectId } })
+      .includes(...includesForColumns(columns))
+      .first({ master: true });
+  }, [proto, className, objectId, schema]);
+
+  const handleSave = () => {
+    if (!object || !editing) return;
+    const { key, value } = editing;
+    if (value === undefined) {
+      setEditing(undefined);
+      return;
+    }
+    startActivity(async () => {
+      try {
+        const cloned = object.clone();
+        if (value instanceof File) {
+          const protoFile = proto.File(value.name, value);
+          await protoFile.save({ master: true });
+          cloned.set(key, protoFile);
+          await cloned.save({ master: true });
+        } else if (className === 'User' && key === 'password') {
+          await proto.setPassword(cloned, value, { master: true });
+        } else {
+          cloned.set(key, value);
+          await cloned.save({ master: true });
+        }
+        setEditing(undefined);
+        refresh();
+        alert.showSuccess(`Object ${object.id} updated successfully`);
+      } catch (error) {
+        console.error('Failed to update object:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to update object');
+      }
+    });
+  };
+
+  const handleSaveAcl = (changes: { object: TObject; acl: AclChange; }[]) => {
+    startActivity(async () => {
+      try {
+        for (const { object, acl } of changes) {
+          const cloned = object.clone();
+          cloned.setAcl({ read: acl.read, update: acl.write });
+          await cloned.save({ master: true });
+        }
+        setShowAcl(undefined);
+        refresh();
+        alert.showSuccess('Permissions updated successfully');
+      } catch (error) {
+        console.error('Failed to update permissions:', error);
+        alert.showError(error instanceof Error ? error.message : 'Failed to update permissions');
+      }
+    });
+  };
+
+  const renderValue = (key: string, fieldType?: TSchema['fields'][string]) => {
+    if (!object || !fullSchema) return null;
+
+    if (!_.isString(fieldType) && fieldType?.type === 'relation') {
+      return <RelationList object={object} field={key} target={fieldType.target} />;
+    }
+
+    const value = object.get(key);
+    if (!_.isString(fieldType) && fieldType?.type === 'pointer' && fieldType.target !== 'File' && value?.id) {
+      return (
+        <button
+          style={linkStyle(theme)}
+          onClick={() => navigate(`/classes/${fieldType.target}/${encodeURIComponent(value.id)}`)}
+        >
+          {fieldType.target}#{value.id}
+        </button>
+      );
+    }
+
+    return (
+      <TableCell
+        item={object}
+        column={key}
+        schema={fullSchema}
+        className={className}
+        isEditing={false}
+      />
+    );
+  };
+
+  const renderRow = (key: string, fieldType: TSchema['fields'][string] | undefined, idx: number) => {
+    const isEditing = editing?.key === key;
+    const editable = !_.includes(readonlyKeys, key.split('.')[0])
+      && (_.isString(fieldType) || fieldType?.type !== 'relation');
+    const typeLabel = _.isString(fieldType) ? fieldType : fieldType?.type === 'pointer' || fieldType?.type === 'relation' ? `${fieldType.type}<${fieldType.target}>` : fieldType?.type;
+
+    return (
+      <tr key={key}>
+        <th style={{ ...thStyle(theme), width: '200px', verticalAlign: 'top' }}>
+          <div>{key}</div>
+          <div style={{
+            fontSize: theme.fontSize.xs,
+            fontWeight: theme.fontWeight.normal,
+            fontFamily: 'monospace',
+            opacity: 0.6,
+          }}>
+            {typeLabel}
+          </div>
+        </th>
+        <td style={tdStyle(theme, idx)}>
+          {isEditing && object && fullSchema ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing.sm }}>
+              <div style={{ position: 'relative', minHeight: '32px' }}>
+                <TableCell
+                  item={object}
+                  column={key}
+                  schema={fullSchema}
+                  className={className}
+                  isEditing={true}
+                  editingValue={editing.value}
+                  setEditingValue={(value) => setEditing({ key, value })}
+                />
+              </div>
+              <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+                <Button variant="solid" color="primary" size="sm" onClick={handleSave}>
+                  Save
+                </Button>
+                <Button variant="outline" color="primary" size="sm" onClick={() => setEditing(undefined)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: theme.spacing.sm }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {renderValue(key, fieldType)}
+              </div>
+              {editable && (
+                <button
+                  title="Edit"
+                  onClick={() => setEditing({ key })}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    padding: 0,
+                    fontSize: theme.fontSize.xs,
+                    color: theme.colors.primary,
+                    opacity: 0.6,
+                    '&:hover': {
+                      opacity: 1,
+                    },
+                  }}
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      height: '100%',
+      width: '100%',
+      alignItems: 'stretch',
+    }}>
+      <div style={{
+        padding: `${theme.spacing.lg}px ${theme.spacing.xl}px`,
+        borderBottom: `1px solid ${theme.colors['primary-200']}`,
+        backgroundColor: theme.colors['primary-100'],
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <div>
+            <h2 style={{
+              margin: 0,
+              fontSize: theme.fontSize.lg,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.colors.primary,
+            }}>
+              <button
+                style={{ ...linkStyle(theme), fontFamily: 'inherit', fontSize: 'inherit', fontWeight: 'inherit' }}
+                onClick={() => navigate(`/classes/${className}`)}
+              >
+                {className}
+              </button>
+              <span style={{ fontFamily: 'monospace' }}> #{objectId}</span>
+            </h2>
+            <div style={{
+              marginTop: theme.spacing.xs,
+              fontSize: theme.fontSize.sm,
+              color: theme.colorContrast(theme.colors['primary-100']),
+              opacity: 0.7,
+            }}>
+              {object?.updatedAt ? `Last updated ${object.updatedAt.toLocaleString()}` : loading ? 'Loading...' : 'Object not found'}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: theme.spacing.sm }}>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={() => navigate(`/classes/${className}?filter[_id]=${encodeURIComponent(objectId)}`)}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing.xs }}>
+                <Icon name="link" size="sm" />
+                <span>Open in browser</span>
+              </div>
+            </Button>
+            <Button
+              variant="outline"
+              color="primary"
+              size="sm"
+              onClick={() => refresh()}
+            >
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+      <div style={{
+        flex: 1,
+        overflow: 'auto',
+        padding: theme.spacing.xl,
+      }}>
+        {object && (
+          <>
+            <Section title="Fields">
+              <FieldTable>
+                {_.map(fieldColumns, (col, idx) => renderRow(col.key, col.fieldType, idx))}
+              </FieldTable>
+            </Section>
+            <Section title="Access Control">
+              <FieldTable>
+                {_.map(['_rperm', '_wperm'], (key, idx) => renderRow(key, fullSchema?.fields[key], idx))}
+              </FieldTable>
+              <div style={{ marginTop: theme.spacing.sm }}>
+                <Button variant="outline" color="primary" size="sm" onClick={() => setShowAcl(Date.now())}>
+                  Edit permissions
+                </Button>
+              </div>
+            </Section>
+            <Section title="Timestamps">
+              <FieldTable>
+                {_.map(['_id', '_created_at', '_updated_at', '_expired_at'], (key, idx) => renderRow(key, fullSchema?.fields[key], idx))}
+              </FieldTable>
+            </Section>
+            <Section title="Referenced By">
+              <ReferencedBy className={className} objectId={objectId} />
+            </Section>
+          </>
+        )}
+        {showAcl && object && (
+          <AclEditorModal
+            key={showAcl}
+            objects={[object]}
+            onSave={handleSaveAcl}
+            onCancel={() => setShowAcl(undefined)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
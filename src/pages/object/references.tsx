@@ -0,0 +1,178 @@
+//
+//  references.tsx
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { useResource } from 'frosty';
+import { QueryFilter, useProto, useProtoSchema } from '../../proto';
+import { useNavigate } from '../../components/router';
+import { useTheme } from '../../components/theme';
+import { encodeFiltersToURLParams } from '../browser/filter';
+import { collectRelations, RelationEntry } from '../diagram';
+import { thStyle, tdStyle } from '../browser/tableStyle';
+
+// Number of referencing objects listed for each field
+const REFERENCE_PREVIEW_LIMIT = 5;
+
+type Reference = RelationEntry & {
+  className: string;
+  count: number;
+  ids: string[];
+};
+
+// Filter matching objects whose field references the given object, or any of the given objects
+export const referenceFilter = ({ path, relType }: Pick<RelationEntry, 'path' | 'relType'>, objectId: string | string[]): QueryFilter => {
+  const match = _.isArray(objectId) ? { $in: objectId } : { $eq: objectId };
+  return relType === 'pointer'
+    ? { [`${path}._id`]: match }
+    : { [path]: { $some: { _id: match } } };
+};
+
+// Pointer and relation fields of every class which target the given class
+export const inboundRelations = (schemas: ReturnType<typeof useProtoSchema>, target: string) => {
+  return _.flatMap(_.keys(schemas).sort(), className => _.flatMap(
+    _.entries(schemas[className]?.fields ?? {}),
+    ([fname, ftype]) => _.map(
+      _.filter(collectRelations(fname, ftype), r => r.target === target),
+      r => ({ ...r, className }),
+    ),
+  ));
+};
+
+type ReferencedByProps = {
+  className: string;
+  objectId: string;
+};
+
+export const ReferencedBy = ({ className, objectId }: ReferencedByProps) => {
+  const theme = useTheme();
+  const proto = useProto();
+  const schemas = useProtoSchema();
+  const navigate = useNavigate();
+
+  const { resource: references, loading } = useResource(async () => {
+    const relations = inboundRelations(schemas, className);
+    const results = await Promise.all(_.map(relations, async (relation): Promise<Reference> => {
+      try {
+        const query = proto.Query(relation.className).filter(referenceFilter(relation, objectId));
+        const [count, objects] = await Promise.all([
+          query.count({ master: true }),
+          query.clone().limit(REFERENCE_PREVIEW_LIMIT).find({ master: true }),
+        ]);
+        return { ...relation, count, ids: _.compact(_.map(objects, obj => obj.id)) };
+      } catch (error) {
+        console.error(`Failed to query references from ${relation.className}.${relation.path}:`, error);
+        return { ...relation, count: 0, ids: [] };
+      }
+    }));
+    return _.filter(results, r => r.count > 0);
+  }, [proto, schemas, className, objectId]);
+
+  const openInBrowser = (reference: Reference) => {
+    const params = new URLSearchParams();
+    encodeFiltersToURLParams([referenceFilter(reference, objectId)], params, proto);
+    navigate(`/classes/${reference.className}?${params.toString()}`);
+  };
+
+  if (_.isEmpty(references)) {
+    return (
+      <div style={{
+        fontSize: theme.fontSize.sm,
+        color: theme.colorContrast('#ffffff'),
+        opacity: 0.6,
+      }}>
+        {loading ? 'Searching for references...' : 'No objects reference this object.'}
+      </div>
+    );
+  }
+
+  return (
+    <table style={{
+      width: '100%',
+      borderCollapse: 'collapse',
+      fontSize: theme.fontSize.sm,
+      border: `1px solid ${theme.colors['primary-200']}`,
+    }}>
+      <thead>
+        <tr>
+          <th style={thStyle(theme)}>Class</th>
+          <th style={thStyle(theme)}>Field</th>
+          <th style={thStyle(theme)}>Type</th>
+          <th style={thStyle(theme)}>Count</th>
+          <th style={thStyle(theme)}>Objects</th>
+        </tr>
+      </thead>
+      <tbody>
+        {_.map(references, (reference, idx) => (
+          <tr key={`${reference.className}.${reference.path}`}>
+            <td style={tdStyle(theme, idx)}>{reference.className}</td>
+            <td style={{ ...tdStyle(theme, idx), fontFamily: 'monospace' }}>{reference.path}</td>
+            <td style={tdStyle(theme, idx)}>{reference.relType}</td>
+            <td style={tdStyle(theme, idx)}>{reference.count}</td>
+            <td style={tdStyle(theme, idx)}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: theme.spacing.sm }}>
+                {_.map(reference.ids, id => (
+                  <button
+                    key={id}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      cursor: 'pointer',
+                      color: theme.colors.primary,
+                      fontFamily: 'monospace',
+                      fontSize: theme.fontSize.sm,
+                      '&:hover': {
+                        textDecoration: 'underline',
+                      },
+                    }}
+                    onClick={() => navigate(`/classes/${reference.className}/${encodeURIComponent(id)}`)}
+                  >
+                    {id}
+                  </button>
+                ))}
+                <button
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    cursor: 'pointer',
+                    color: theme.colors.primary,
+                    fontSize: theme.fontSize.xs,
+                    '&:hover': {
+                      textDecoration: 'underline',
+                    },
+                  }}
+                  onClick={() => openInBrowser(reference)}
+                >
+                  Open all in browser
+                </button>
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
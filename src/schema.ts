@@ -0,0 +1,85 @@
+//
+//  schema.ts
+//
+//  The MIT License
+//  Copyright (c) 2021 - 2026 O2ter Limited. All rights reserved.
+//
+//  Permission is hereby granted, free of charge, to any person obtaining a copy
+//  of this software and associated documentation files (the "Software"), to deal
+//  in the Software without restriction, including without limitation the rights
+//  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//  copies of the Software, and to permit persons to whom the Software is
+//  furnished to do so, subject to the following conditions:
+//
+//  The above copyright notice and this permission notice shall be included in
+//  all copies or substantial portions of the Software.
+//
+//  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+//  THE SOFTWARE.
+//
+
+import _ from 'lodash';
+import { QueryFilter, TSchema } from './proto';
+
+type Column = { key: string; baseField: string; fieldType: TSchema['fields'][string] };
+
+export const _typeOf = (x?: TSchema['fields'][string]) => _.isString(x) ? x : x?.type;
+export const typeOf = (x?: TSchema['fields'][string]) => _.isString(x) ? x : x?.type === 'pointer' && x.target === 'File' ? 'file' : x?.type;
+
+// Helper: Expand schema fields into columns (flatten object types but not arrays)
+export const expandColumns = (fields: TSchema['fields']) => {
+  const columns: Array<{
+    key: string;
+    baseField: string;
+    fieldType: TSchema['fields'][string];
+  }> = [];
+
+  const expandField = (fieldName: string, fieldType: TSchema['fields'][string], path: string[] = []) => {
+
+    if (!_.isString(fieldType) && fieldType.type === 'shape') {
+      // Expand object properties into separate columns
+      for (const [propName, propType] of Object.entries(fieldType.shape)) {
+        expandField(fieldName, propType, [...path, propName]);
+      }
+    } else {
+      // Regular field or non-expandable type
+      const key = path.length > 0 ? `${fieldName}.${path.join('.')}` : fieldName;
+      columns.push({
+        key,
+        baseField: fieldName,
+        fieldType,
+      });
+    }
+  };
+
+  for (const [fieldName, fieldType] of Object.entries(fields)) {
+    expandField(fieldName, fieldType);
+  }
+
+  return columns;
+};
+
+// Columns that can be matched against the quick search text
+export const searchableColumns = (columns: Column[]) => _.filter(columns, col => {
+  const type = typeOf(col.fieldType);
+  return type === 'string' || type === 'string[]';
+});
+
+// Build an `$or` of `$pattern` filters matching the text in any of the columns
+export const quickSearchFilter = (columns: Column[], text: string, fields: string[] = []): QueryFilter | undefined => {
+  if (_.isEmpty(text)) return;
+  const searchable = searchableColumns(columns);
+  const selected = _.isEmpty(fields) ? searchable : _.filter(searchable, col => _.includes(fields, col.key));
+  if (_.isEmpty(selected)) return;
+  const pattern = new RegExp(_.escapeRegExp(text), 'i');
+  return {
+    $or: _.map(selected, col => typeOf(col.fieldType) === 'string[]'
+      ? { [col.key]: { $some: { $: { $pattern: pattern } } } }
+      : { [col.key]: { $pattern: pattern } }),
+  };
+};